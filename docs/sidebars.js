@@ -41,15 +41,37 @@ module.exports = {
             type: 'doc',
             id: 'component-store',
         },
+        {
+            type: 'doc',
+            id: 'entity-adapter',
+        },
+        {
+            type: 'doc',
+            id: 'external-store',
+        },
+        {
+            type: 'doc',
+            id: 'state-snapshots',
+        },
+        {
+            type: 'doc',
+            id: 'testing',
+        },
         {
             type: 'category',
             label: 'Extensions',
             items: [
                 'ext-quick-start',
                 'ext-redux-dev-tools',
+                'ext-remote-devtools',
                 'ext-immutable',
+                'ext-runtime-checks',
                 'ext-undo-extension',
                 'ext-logger',
+                'ext-performance',
+                'ext-persist-state',
+                'ext-tab-sync',
+                'ext-session-recorder',
             ],
         },
         {
@@ -4,4 +4,11 @@
 
 export { StoreRootModule, StoreModule, StoreFeatureModule } from './lib/store.module';
 export { EffectsModule } from './lib/effects.module';
+export { OnInitEffects, OnRunEffects } from './lib/effects-lifecycle';
 export { ComponentStoreModule } from './lib/component-store.module';
+export {
+    provideStore,
+    provideFeature,
+    provideEffects,
+    provideComponentStoreConfig,
+} from './lib/store.providers';
@@ -0,0 +1,27 @@
+import { Observable } from 'rxjs';
+import { Action } from 'mini-rx-store';
+
+// Implement `OnInitEffects` to dispatch an action once the effects of the class are running
+export interface OnInitEffects {
+    miniRxOnInitEffects(): Action;
+}
+
+// Implement `OnRunEffects` to control when the effects of the class start and stop
+// E.g. run the effects only while a user is logged in:
+// miniRxOnRunEffects<T>(effect$: Observable<T>): Observable<T> {
+//     return this.actions$.pipe(
+//         ofType(login),
+//         exhaustMap(() => effect$.pipe(takeUntil(this.actions$.pipe(ofType(logout)))))
+//     );
+// }
+export interface OnRunEffects {
+    miniRxOnRunEffects<T>(effect$: Observable<T>): Observable<T>;
+}
+
+export function isOnInitEffects(v: any): v is OnInitEffects {
+    return typeof v.miniRxOnInitEffects === 'function';
+}
+
+export function isOnRunEffects(v: any): v is OnRunEffects {
+    return typeof v.miniRxOnRunEffects === 'function';
+}
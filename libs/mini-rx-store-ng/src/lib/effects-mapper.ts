@@ -24,8 +24,9 @@
 // SOFTWARE.
 
 import { ClassProvider, InjectionToken, Type } from '@angular/core';
-import { Observable } from 'rxjs';
-import { hasEffectMetaData } from 'mini-rx-store';
+import { defer, Observable } from 'rxjs';
+import { createEffect, EFFECT_METADATA_KEY, hasEffectMetaData } from 'mini-rx-store';
+import { isOnRunEffects } from './effects-lifecycle';
 
 export const fromClassesWithEffectsToClassProviders = (
     injectionToken: InjectionToken<any>,
@@ -44,7 +45,18 @@ export const fromObjectsWithEffectsToEffects = (objectsWithEffects: any[]): Obse
         >((acc, prop) => {
             const effect = objectWithEffects[prop];
             if (hasEffectMetaData(effect)) {
-                acc.push(effect);
+                // The effect name identifies the effect in `errors$` (e.g. "TodoEffects.loadTodos$")
+                acc.push(
+                    createEffect(
+                        isOnRunEffects(objectWithEffects)
+                            ? objectWithEffects.miniRxOnRunEffects(effect)
+                            : defer(() => effect),
+                        {
+                            name: `${objectWithEffects.constructor.name}.${prop}`,
+                            ...effect[EFFECT_METADATA_KEY],
+                        }
+                    )
+                );
             }
             return acc;
         }, []);
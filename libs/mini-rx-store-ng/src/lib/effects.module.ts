@@ -24,6 +24,7 @@
 // SOFTWARE.
 
 import {
+    DestroyRef,
     Inject,
     InjectionToken,
     ModuleWithProviders,
@@ -32,35 +33,67 @@ import {
     Type,
 } from '@angular/core';
 import { Observable } from 'rxjs';
-import { Action, Store } from 'mini-rx-store';
+import { Action, EffectRegistrationConfig, effectsInit, Store } from 'mini-rx-store';
 import {
     fromClassesWithEffectsToClassProviders,
     fromObjectsWithEffectsToEffects,
 } from './effects-mapper';
 import { StoreFeatureModule, StoreRootModule } from './store.module';
+import { isOnInitEffects } from './effects-lifecycle';
 
 const OBJECTS_WITH_EFFECTS = new InjectionToken('@mini-rx/objectsWithEffects');
+const EFFECTS_CONFIG = new InjectionToken<EffectRegistrationConfig>('@mini-rx/effectsConfig');
+
+// The `effectsInit` action is dispatched only once per store (also if EffectsModule is registered many times)
+const storesWithRunningEffects = new WeakSet<Store>();
+
+// Used by `EffectsModule` and `provideEffects`
+export function registerEffects(
+    store: Store,
+    objectsWithEffects: any[],
+    config: EffectRegistrationConfig | undefined,
+    destroyRef: DestroyRef
+): void {
+    const effects = fromObjectsWithEffectsToEffects(objectsWithEffects);
+    effects.forEach((effect: Observable<Action>) => {
+        const subscription = store.effect(effect, config);
+        // Stop the effects when the injector is destroyed
+        destroyRef.onDestroy(() => subscription.unsubscribe());
+    });
+
+    objectsWithEffects.filter(isOnInitEffects).forEach((objectWithEffects) => {
+        store.dispatch(objectWithEffects.miniRxOnInitEffects());
+    });
+
+    if (!storesWithRunningEffects.has(store)) {
+        storesWithRunningEffects.add(store);
+        store.dispatch(effectsInit());
+    }
+}
 
 @NgModule()
 export class EffectsModule {
     constructor(
         private store: Store,
         @Inject(OBJECTS_WITH_EFFECTS) objectsWithEffects: any[],
+        @Optional() @Inject(EFFECTS_CONFIG) config: EffectRegistrationConfig | null,
+        destroyRef: DestroyRef,
         // Make sure effects can select state from store, also if EffectsModule is registered before Store.forFeature
         @Optional() storeRootModule: StoreRootModule,
         @Optional() storeFeatureModule: StoreFeatureModule
     ) {
-        const effects = fromObjectsWithEffectsToEffects(objectsWithEffects);
-        effects.forEach((effect: Observable<Action>) => {
-            this.store.effect(effect);
-        });
+        registerEffects(this.store, objectsWithEffects, config ?? undefined, destroyRef);
     }
 
-    static register(classesWithEffects: Type<any>[]): ModuleWithProviders<EffectsModule> {
+    static register(
+        classesWithEffects: Type<any>[],
+        config?: EffectRegistrationConfig
+    ): ModuleWithProviders<EffectsModule> {
         return {
             ngModule: EffectsModule,
             providers: [
                 ...fromClassesWithEffectsToClassProviders(OBJECTS_WITH_EFFECTS, classesWithEffects),
+                { provide: EFFECTS_CONFIG, useValue: config },
             ],
         };
     }
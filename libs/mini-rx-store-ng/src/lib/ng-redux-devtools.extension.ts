@@ -1,5 +1,5 @@
 import { Injector, NgZone, Type } from '@angular/core';
-import { ReduxDevtoolsExtension, ReduxDevtoolsOptions } from 'mini-rx-store';
+import { ExtensionHost, ReduxDevtoolsExtension, ReduxDevtoolsOptions } from 'mini-rx-store';
 
 export class NgReduxDevtoolsExtension extends ReduxDevtoolsExtension {
     private ngZone: NgZone = this.injector.get<NgZone>(NgZone as Type<NgZone>);
@@ -8,9 +8,9 @@ export class NgReduxDevtoolsExtension extends ReduxDevtoolsExtension {
         super(options);
     }
 
-    override updateState(state: Record<string, any>) {
+    override updateState(state: Record<string, any>, host: ExtensionHost<any>) {
         this.ngZone.run(() => {
-            super.updateState(state);
+            super.updateState(state, host);
         });
     }
 }
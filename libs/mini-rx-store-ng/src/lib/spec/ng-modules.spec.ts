@@ -5,6 +5,7 @@ import {
     Actions,
     createComponentStore,
     createEffect,
+    effectsInit,
     FeatureStore,
     ImmutableStateExtension,
     LoggerExtension,
@@ -17,9 +18,10 @@ import {
     _StoreCore,
 } from 'mini-rx-store';
 import { Injectable, NgModule } from '@angular/core';
-import { catchError, map, mergeMap } from 'rxjs/operators';
-import { of } from 'rxjs';
+import { catchError, exhaustMap, map, mergeMap, takeUntil, tap } from 'rxjs/operators';
+import { Observable, of } from 'rxjs';
 import { EffectsModule } from '../effects.module';
+import { OnInitEffects, OnRunEffects } from '../effects-lifecycle';
 import { ComponentStoreModule } from 'mini-rx-store-ng';
 import { NgReduxDevtoolsExtension } from '../ng-redux-devtools.extension';
 
@@ -133,6 +135,44 @@ export class TodoEffectsNOK {
     constructor(private actions$: Actions) {}
 }
 
+const lifecycleActionsSpy = jest.fn();
+
+@Injectable()
+export class InitEffects implements OnInitEffects {
+    lifecycleActions$ = createEffect(
+        this.actions$.pipe(
+            ofType(effectsInit.type, 'INIT_EFFECTS'),
+            tap((action) => lifecycleActionsSpy(action.type))
+        ),
+        { dispatch: false }
+    );
+
+    constructor(private actions$: Actions) {}
+
+    miniRxOnInitEffects(): Action {
+        return { type: 'INIT_EFFECTS' };
+    }
+}
+
+@Injectable()
+export class RunEffects implements OnRunEffects {
+    loadTodos$ = createEffect(
+        this.actions$.pipe(
+            ofType('LOAD_4'),
+            map(() => ({ type: 'LOAD_SUCCESS_4' }))
+        )
+    );
+
+    constructor(private actions$: Actions) {}
+
+    miniRxOnRunEffects<T>(effect$: Observable<T>): Observable<T> {
+        return this.actions$.pipe(
+            ofType('START_EFFECTS'),
+            exhaustMap(() => effect$.pipe(takeUntil(this.actions$.pipe(ofType('STOP_EFFECTS')))))
+        );
+    }
+}
+
 class CounterFeatureStore extends FeatureStore<CounterState> {
     constructor() {
         super('counterFs', counterInitialState);
@@ -147,6 +187,9 @@ class CounterFeatureStore extends FeatureStore<CounterState> {
 
 const globalCsExtensions = [new LoggerExtension(), new ImmutableStateExtension()];
 
+const devToolsConnection = { subscribe: jest.fn(), send: jest.fn() };
+(window as any).__REDUX_DEVTOOLS_EXTENSION__ = { connect: () => devToolsConnection };
+
 const reduxDevToolsExtension = new ReduxDevtoolsExtension({ name: 'Test Redux DevTools' });
 const stateFromReduxDevTools = {
     someProp: 'someValue',
@@ -178,9 +221,11 @@ describe(`Ng Modules`, () => {
 
     beforeAll(() => {
         TestBed.configureTestingModule({
+            // The testing module is configured once: keep the effects running for all tests
+            teardown: { destroyAfterEach: false },
             imports: [
                 Counter4Module,
-                EffectsModule.register([TodoEffects, TodoEffectsNOK]),
+                EffectsModule.register([TodoEffects, TodoEffectsNOK, InitEffects, RunEffects]),
                 StoreModule.forRoot({
                     reducers: {
                         counter1: counterReducer,
@@ -216,8 +261,9 @@ describe(`Ng Modules`, () => {
         });
         expect(spy).toHaveBeenCalledTimes(1);
 
-        expect(rootMetaReducerSpy).toHaveBeenCalledTimes(3);
-        expect(featureMetaReducerSpy).toHaveBeenCalledTimes(1);
+        // 3 init actions (store, counter4, counter5) + the OnInitEffects action + effectsInit
+        expect(rootMetaReducerSpy).toHaveBeenCalledTimes(5);
+        expect(featureMetaReducerSpy).toHaveBeenCalledTimes(3);
         expect(extensionSpy).toHaveBeenCalledTimes(1);
     });
 
@@ -236,8 +282,8 @@ describe(`Ng Modules`, () => {
             counter5: { counter: 556 },
         });
 
-        expect(rootMetaReducerSpy).toHaveBeenCalledTimes(4);
-        expect(featureMetaReducerSpy).toHaveBeenCalledTimes(2);
+        expect(rootMetaReducerSpy).toHaveBeenCalledTimes(6);
+        expect(featureMetaReducerSpy).toHaveBeenCalledTimes(4);
     });
 
     it(`should run effect`, () => {
@@ -271,6 +317,31 @@ describe(`Ng Modules`, () => {
         expect(spy).not.toHaveBeenCalledWith(loadSuccessAction3);
     });
 
+    describe(`Effects lifecycle`, () => {
+        it(`should dispatch the OnInitEffects action and the effectsInit action once`, () => {
+            expect(lifecycleActionsSpy.mock.calls).toEqual([
+                ['INIT_EFFECTS'],
+                ['@mini-rx/effects/init'],
+            ]);
+        });
+
+        it(`should start and stop the effects with OnRunEffects`, () => {
+            const spy = jest.fn();
+            actions$.pipe(ofType('LOAD_SUCCESS_4')).subscribe(spy);
+
+            store.dispatch({ type: 'LOAD_4' });
+            expect(spy).toHaveBeenCalledTimes(0);
+
+            store.dispatch({ type: 'START_EFFECTS' });
+            store.dispatch({ type: 'LOAD_4' });
+            expect(spy).toHaveBeenCalledTimes(1);
+
+            store.dispatch({ type: 'STOP_EFFECTS' });
+            store.dispatch({ type: 'LOAD_4' });
+            expect(spy).toHaveBeenCalledTimes(1);
+        });
+    });
+
     describe(`FeatureStore`, () => {
         let fs: CounterFeatureStore;
 
@@ -333,15 +404,14 @@ describe(`Ng Modules`, () => {
         });
 
         it('should update the Store state', () => {
-            const devToolsExtensionFromConfig: NgReduxDevtoolsExtension = configureStoreSpy.mock
-                .calls[0][0]!['extensions']![1] as NgReduxDevtoolsExtension;
+            const onDevToolsMessage = devToolsConnection.subscribe.mock.calls[0][0];
 
             const spy = jest.spyOn(_StoreCore.appState, 'set');
             JSON.parse = jest.fn().mockImplementationOnce((data) => {
                 return data;
             });
 
-            devToolsExtensionFromConfig['onDevToolsMessage']({
+            onDevToolsMessage({
                 type: 'DISPATCH',
                 payload: {
                     type: 'JUMP_TO_STATE',
@@ -354,7 +424,7 @@ describe(`Ng Modules`, () => {
 
             spy.mockReset();
 
-            devToolsExtensionFromConfig['onDevToolsMessage']({
+            onDevToolsMessage({
                 type: 'NOT_SUPPORTED_TYPE',
                 payload: {},
                 state: {},
@@ -0,0 +1,98 @@
+import { computed, signal } from '@angular/core';
+import {
+    ComponentStore,
+    configureSignals,
+    createComponentStore,
+    createFeatureStore,
+    createSelector,
+    createStore,
+} from 'mini-rx-store';
+
+interface CounterState {
+    counter: number;
+    label: string;
+}
+
+const initialState: CounterState = { counter: 1, label: 'Counter' };
+
+const getCounter = (state: CounterState) => state.counter;
+const getDoubleCounter = createSelector(getCounter, (counter) => counter * 2);
+const getLabel = (state: CounterState) => state.label;
+
+describe('Signals', () => {
+    beforeAll(() => {
+        configureSignals({ signal, computed });
+    });
+
+    it('should select a signal from a FeatureStore', () => {
+        const fs = createFeatureStore<CounterState>('signalCounter', initialState, {
+            store: createStore(),
+        });
+        const counter = fs.selectSignal(getCounter);
+
+        expect(counter()).toBe(1);
+
+        fs.setState({ counter: 2 });
+        expect(counter()).toBe(2);
+    });
+
+    it('should select a signal from a ComponentStore', () => {
+        const cs = createComponentStore<CounterState>(initialState);
+        const doubleCounter = cs.selectSignal(getDoubleCounter);
+
+        expect(doubleCounter()).toBe(2);
+
+        cs.setState((state) => ({ counter: state.counter + 1 }));
+        expect(doubleCounter()).toBe(4);
+    });
+
+    it('should select a signal from the Store', () => {
+        const store = createStore({
+            reducers: {
+                counter: (state = 1, action) => (action.type === 'inc' ? state + 1 : state),
+            },
+        });
+        const counter = store.selectSignal((state) => state['counter']);
+
+        store.dispatch({ type: 'inc' });
+
+        expect(counter()).toBe(2);
+    });
+
+    it('should create a view model signal from a dictionary of selectors', () => {
+        const cs = createComponentStore<CounterState>(initialState);
+        const vm = cs.selectViewModel({
+            counter: getCounter,
+            doubleCounter: getDoubleCounter,
+            label: getLabel,
+        });
+
+        expect(vm()).toEqual({ counter: 1, doubleCounter: 2, label: 'Counter' });
+
+        cs.setState({ label: 'Updated' });
+        expect(vm()).toEqual({ counter: 1, doubleCounter: 2, label: 'Updated' });
+    });
+
+    it('should not call the selector before the state is initialized', () => {
+        const cs = new ComponentStore<CounterState>();
+        const selectorSpy = jest.fn(getCounter);
+        const counter = cs.selectSignal(selectorSpy);
+
+        expect(counter()).toBe(undefined);
+        expect(selectorSpy).not.toHaveBeenCalled();
+
+        cs.setInitialState(initialState);
+        expect(counter()).toBe(1);
+    });
+
+    it('should stop updating the signals after destroy', () => {
+        const cs = createComponentStore<CounterState>(initialState);
+        const counter = cs.selectSignal(getCounter);
+
+        cs.setState({ counter: 2 });
+        cs.destroy();
+        cs.setState({ counter: 3 });
+
+        expect(counter()).toBe(2);
+    });
+});
@@ -0,0 +1,116 @@
+import { createEnvironmentInjector, EnvironmentInjector, Injectable } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { map, withLatestFrom } from 'rxjs/operators';
+import {
+    Action,
+    Actions,
+    createComponentStore,
+    createEffect,
+    ofType,
+    Store,
+    UndoExtension,
+} from 'mini-rx-store';
+import {
+    provideComponentStoreConfig,
+    provideEffects,
+    provideFeature,
+    provideStore,
+} from '../store.providers';
+
+interface CounterState {
+    counter: number;
+}
+
+function counterReducer(state: CounterState = { counter: 1 }, action: Action): CounterState {
+    return action.type === 'increment' ? { counter: state.counter + 1 } : state;
+}
+
+@Injectable()
+class CounterEffects {
+    // Selects the feature state of the lazy injector
+    increment$ = createEffect(
+        this.actions$.pipe(
+            ofType('incrementRequest'),
+            withLatestFrom(this.store.select((state) => state['lazyCounter'])),
+            map(([, state]) => ({ type: 'incrementSuccess', payload: state }))
+        )
+    );
+
+    constructor(private actions$: Actions, private store: Store) {}
+}
+
+describe('Standalone providers', () => {
+    let store: Store;
+    let actions$: Actions;
+    let rootInjector: EnvironmentInjector;
+
+    beforeAll(() => {
+        TestBed.configureTestingModule({
+            providers: [
+                provideStore({ reducers: { root: counterReducer } }),
+                provideFeature<CounterState>('rootFeature', counterReducer),
+                provideComponentStoreConfig({ extensions: [new UndoExtension()] }),
+            ],
+            // Keep the root injector alive for the lazy injector tests
+            teardown: { destroyAfterEach: false },
+        });
+
+        store = TestBed.inject(Store);
+        actions$ = TestBed.inject(Actions);
+        rootInjector = TestBed.inject(EnvironmentInjector);
+    });
+
+    it('should initialize the root and feature state', () => {
+        const spy = jest.fn();
+        store.select((state) => state).subscribe(spy);
+
+        expect(spy).toHaveBeenCalledWith({
+            root: { counter: 1 },
+            rootFeature: { counter: 1 },
+        });
+    });
+
+    it('should configure the component stores', () => {
+        const cs = createComponentStore({});
+
+        expect(cs.undo).toBeDefined();
+        expect(() => cs.undo({ type: 'someAction' })).not.toThrow();
+    });
+
+    describe('Lazy environment injector', () => {
+        let lazyInjector: EnvironmentInjector;
+
+        beforeAll(() => {
+            lazyInjector = createEnvironmentInjector(
+                [
+                    // Effects are listed before the feature: the feature state is added first nevertheless
+                    provideEffects(CounterEffects),
+                    provideFeature<CounterState>('lazyCounter', counterReducer),
+                ],
+                rootInjector
+            );
+        });
+
+        it('should add the feature state', () => {
+            const spy = jest.fn();
+            store.select((state) => state['lazyCounter']).subscribe(spy);
+
+            expect(spy).toHaveBeenCalledWith({ counter: 1 });
+        });
+
+        it('should run the effects until the injector is destroyed', () => {
+            const spy = jest.fn();
+            actions$.pipe(ofType('incrementSuccess')).subscribe(spy);
+
+            store.dispatch({ type: 'incrementRequest' });
+            expect(spy).toHaveBeenCalledWith({
+                type: 'incrementSuccess',
+                payload: { counter: 1 },
+            });
+
+            lazyInjector.destroy();
+            store.dispatch({ type: 'incrementRequest' });
+            expect(spy).toHaveBeenCalledTimes(1);
+        });
+    });
+});
@@ -0,0 +1,102 @@
+import {
+    DestroyRef,
+    ENVIRONMENT_INITIALIZER,
+    EnvironmentProviders,
+    inject,
+    InjectionToken,
+    Injector,
+    makeEnvironmentProviders,
+    Type,
+} from '@angular/core';
+import {
+    Actions,
+    actions$,
+    ComponentStoreConfig,
+    configureComponentStores,
+    FeatureConfig,
+    Reducer,
+    Store,
+    StoreConfig,
+} from 'mini-rx-store';
+import { STORE_CONFIG, storeFactory } from './store.module';
+import { registerEffects } from './effects.module';
+
+// Resolves when the feature states of an injector are added to the store
+// `provideEffects` injects it: effects can select feature state, also if `provideEffects` is listed before `provideFeature`
+const FEATURE_STATES = new InjectionToken<void[]>('@mini-rx/feature-states');
+
+// Standalone alternative to `StoreModule.forRoot` (e.g. in `bootstrapApplication`)
+export function provideStore<T>(config: StoreConfig<T>): EnvironmentProviders {
+    return makeEnvironmentProviders([
+        { provide: STORE_CONFIG, useValue: config },
+        {
+            provide: Store,
+            useFactory: storeFactory,
+            deps: [STORE_CONFIG, Injector],
+        },
+        {
+            provide: Actions,
+            useValue: actions$,
+        },
+        {
+            // Make sure store is initialized also if it is NOT injected in other services/components
+            provide: ENVIRONMENT_INITIALIZER,
+            multi: true,
+            useValue: () => inject(Store),
+        },
+    ]);
+}
+
+// Standalone alternative to `StoreModule.forFeature` (e.g. in lazy loaded `Route.providers`)
+export function provideFeature<T>(
+    featureName: string,
+    reducer: Reducer<T>,
+    config?: Partial<FeatureConfig<T>>
+): EnvironmentProviders {
+    return makeEnvironmentProviders([
+        {
+            provide: FEATURE_STATES,
+            multi: true,
+            // Injecting `Store` initializes the root state before the feature state
+            useFactory: () =>
+                inject(Store).feature<T>(featureName, reducer, config as FeatureConfig<T>),
+        },
+        {
+            provide: ENVIRONMENT_INITIALIZER,
+            multi: true,
+            useValue: () => inject(FEATURE_STATES),
+        },
+    ]);
+}
+
+// Standalone alternative to `EffectsModule.register`
+// The effects are stopped when the environment injector is destroyed
+export function provideEffects(...classesWithEffects: Type<unknown>[]): EnvironmentProviders {
+    return makeEnvironmentProviders([
+        ...classesWithEffects,
+        {
+            provide: ENVIRONMENT_INITIALIZER,
+            multi: true,
+            useValue: () => {
+                inject(FEATURE_STATES, { optional: true });
+                registerEffects(
+                    inject(Store),
+                    classesWithEffects.map((classWithEffects) => inject(classWithEffects)),
+                    undefined,
+                    inject(DestroyRef)
+                );
+            },
+        },
+    ]);
+}
+
+// Standalone alternative to `ComponentStoreModule.forRoot`
+export function provideComponentStoreConfig(config: ComponentStoreConfig): EnvironmentProviders {
+    return makeEnvironmentProviders([
+        {
+            provide: ENVIRONMENT_INITIALIZER,
+            multi: true,
+            useValue: () => configureComponentStores(config),
+        },
+    ]);
+}
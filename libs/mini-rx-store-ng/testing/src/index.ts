@@ -0,0 +1,5 @@
+/*
+ * Public API Surface of mini-rx-store-ng/testing
+ */
+
+export { provideMockStore, provideMockActions } from './lib/testing-providers';
@@ -0,0 +1,95 @@
+import { Injectable } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { of } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { Actions, createAction, createEffect, createSelector, ofType, Store } from 'mini-rx-store';
+import { MockStore } from 'mini-rx-store/testing';
+import { provideMockActions, provideMockStore } from '../../index';
+
+interface CounterState {
+    counter: number;
+}
+
+const getCounter = (state: Record<string, any>) => state['counter'];
+const getDoubleCounter = createSelector(getCounter, (counter: number) => counter * 2);
+
+const increment = createAction('increment');
+const incrementSuccess = createAction('incrementSuccess');
+
+@Injectable()
+class CounterEffects {
+    increment$ = createEffect(
+        this.actions$.pipe(
+            ofType(increment),
+            map(() => incrementSuccess())
+        )
+    );
+
+    constructor(private actions$: Actions) {}
+}
+
+describe('Testing providers', () => {
+    describe('provideMockStore', () => {
+        beforeEach(() => {
+            TestBed.configureTestingModule({
+                providers: [
+                    provideMockStore<CounterState>({
+                        initialState: { counter: 1 },
+                        selectors: [{ selector: getDoubleCounter, value: 10 }],
+                    }),
+                ],
+            });
+        });
+
+        afterEach(() => {
+            TestBed.inject(MockStore).resetSelectors();
+        });
+
+        it('should provide the MockStore as Store', () => {
+            const store = TestBed.inject(Store);
+            const mockStore = TestBed.inject(MockStore);
+
+            expect(store).toBe(mockStore);
+        });
+
+        it('should select the mocked state and selectors', () => {
+            const store = TestBed.inject(Store);
+            const counterSpy = jest.fn();
+            const doubleCounterSpy = jest.fn();
+
+            store.select(getCounter).subscribe(counterSpy);
+            store.select(getDoubleCounter).subscribe(doubleCounterSpy);
+
+            expect(counterSpy).toHaveBeenCalledWith(1);
+            expect(doubleCounterSpy).toHaveBeenCalledWith(10);
+        });
+
+        it('should provide the dispatched actions as Actions', () => {
+            const store = TestBed.inject(Store);
+            const spy = jest.fn();
+            TestBed.inject(Actions).subscribe(spy);
+
+            store.dispatch(increment());
+
+            expect(spy).toHaveBeenCalledWith(increment());
+            expect(TestBed.inject(MockStore).dispatchedActions).toEqual([increment()]);
+        });
+    });
+
+    describe('provideMockActions', () => {
+        it('should provide a custom Actions source', () => {
+            TestBed.configureTestingModule({
+                providers: [
+                    CounterEffects,
+                    provideMockStore(),
+                    provideMockActions(() => of(increment())),
+                ],
+            });
+
+            const spy = jest.fn();
+            TestBed.inject(CounterEffects).increment$.subscribe(spy);
+
+            expect(spy).toHaveBeenCalledWith(incrementSuccess());
+        });
+    });
+});
@@ -0,0 +1,24 @@
+import { Provider } from '@angular/core';
+import { Observable } from 'rxjs';
+import { Action, Actions, Store } from 'mini-rx-store';
+import { createMockActions, MockStore, MockStoreConfig } from 'mini-rx-store/testing';
+
+// Replaces `Store` and `Actions` with a `MockStore` in `TestBed`
+// Inject `MockStore` to set the state, override selectors or inspect the dispatched actions
+export function provideMockStore<StateType extends object>(
+    config: MockStoreConfig<StateType> = {}
+): Provider[] {
+    return [
+        { provide: MockStore, useFactory: () => new MockStore(config) },
+        { provide: Store, useExisting: MockStore },
+        { provide: Actions, useFactory: (store: MockStore) => store.actions$, deps: [MockStore] },
+    ];
+}
+
+// Replaces `Actions` with a custom source to test effect classes in isolation
+// Add `provideMockActions` after `provideMockStore`: the last `Actions` provider wins
+export function provideMockActions(
+    source: Observable<Action> | (() => Observable<Action>)
+): Provider {
+    return { provide: Actions, useFactory: () => createMockActions(source) };
+}
@@ -2,7 +2,7 @@
  * Public API Surface of mini-rx-store
  */
 
-export { Store, configureStore } from './lib/store';
+export { Store, configureStore, createStore } from './lib/store';
 export { actions$ } from './lib/store-core';
 export { FeatureStore, createFeatureStore } from './lib/feature-store';
 export {
@@ -15,7 +15,26 @@ export {
     createSelector,
     createFeatureStateSelector,
     createComponentStateSelector,
+    createSelectorFactory,
+    Selector,
+    SelectorWithProps,
+    MemoizedSelector,
+    MemoizedSelectorWithProps,
+    configureSelectors,
+    SelectorConfig,
 } from './lib/selector';
+export { memoizeOne } from './lib/memoize-one';
+export { createLruMemoizer, weakMemoize, Memoizer } from './lib/memoize';
+export {
+    configureSignals,
+    createSelectSignal,
+    createViewModelSelector,
+    ReadonlySignal,
+    WritableSignal,
+    SignalFunctions,
+    SelectSignalFn,
+    ViewModel,
+} from './lib/signals';
 export {
     Action,
     Reducer,
@@ -26,19 +45,123 @@ export {
     ComponentStoreConfig,
     StoreExtension,
     ExtensionId,
+    ExtensionHost,
+    ActionInterceptor,
+    ActionInterceptorApi,
+    EffectRegistrationConfig,
+    EFFECT_METADATA_KEY,
+    EffectConfig,
+    EffectError,
 } from './lib/models';
+export {
+    createEntityAdapter,
+    EntityAdapter,
+    EntityAdapterConfig,
+    EntityState,
+    EntityId,
+    EntityDictionary,
+    EntitySelectors,
+    Update,
+} from './lib/entity-adapter';
 export { ofType, hasEffectMetaData } from './lib/utils';
+export {
+    createAction,
+    createActionGroup,
+    props,
+    emptyProps,
+    ActionCreator,
+    ActionCreatorProps,
+    ActionGroup,
+    TypedAction,
+} from './lib/create-action';
+export { createReducer, on, ReducerTypes } from './lib/create-reducer';
 export {
     ReduxDevtoolsExtension,
     ReduxDevtoolsOptions,
 } from './lib/extensions/redux-devtools.extension';
-export { LoggerExtension } from './lib/extensions/logger.extension';
+export {
+    RemoteDevtoolsExtension,
+    RemoteDevtoolsOptions,
+    RemoteDevtoolsTransport,
+    RemoteDevtoolsMessage,
+    RemoteDevtoolsCommand,
+    WebSocketLike,
+    createWebSocketTransport,
+    createInMemoryDevtoolsServer,
+} from './lib/extensions/remote-devtools.extension';
+export {
+    LoggerExtension,
+    LoggerOptions,
+    LogEntry,
+    LogSink,
+    StateDiff,
+    createBufferSink,
+    formatLogEntry,
+} from './lib/extensions/logger.extension';
 export { ImmutableStateExtension } from './lib/extensions/immutable-state.extension';
-export { UndoExtension } from './lib/extensions/undo.extension';
+export { RuntimeChecksExtension, RuntimeChecks } from './lib/extensions/runtime-checks.extension';
+export {
+    PerformanceExtension,
+    PerformanceOptions,
+    PerformanceStats,
+    PerformanceMeasurement,
+    TimingStats,
+} from './lib/extensions/performance.extension';
+export {
+    TabSyncExtension,
+    TabSyncOptions,
+    TabSyncChannel,
+    TabSyncMessage,
+    createBroadcastChannel,
+    createStorageChannel,
+    createInMemoryChannelHub,
+} from './lib/extensions/tab-sync.extension';
+export {
+    SessionRecorderExtension,
+    SessionRecorderOptions,
+    RecordedSession,
+    RecordedEntry,
+} from './lib/extensions/session-recorder.extension';
+export {
+    SessionReplayer,
+    SessionReplayerConfig,
+    ReplayStep,
+    createSessionReplayer,
+} from './lib/session-replayer';
+export { UndoExtension, UndoHistory, UndoHistoryEntry } from './lib/extensions/undo.extension';
+export {
+    PersistStateExtension,
+    PersistStateOptions,
+    PersistStorage,
+    PersistMigrations,
+    createInMemoryStorage,
+} from './lib/extensions/persist-state.extension';
+export { toExternalStore, ExternalStore } from './lib/external-store';
+export {
+    createSerializerRegistry,
+    createClassSerializer,
+    createStateSnapshot,
+    parseStateSnapshot,
+    dateSerializer,
+    mapSerializer,
+    setSerializer,
+    SerializerRegistry,
+    TypeSerializer,
+} from './lib/serializer';
 export { tapResponse } from './lib/tap-response';
 export { mapResponse } from './lib/map-response';
 export { createEffect } from './lib/create-effect';
-export { undo } from './lib/actions';
+export { errors$ } from './lib/default-effects-error-handler';
+export {
+    undo,
+    undoLast,
+    redo,
+    checkpoint,
+    undoToCheckpoint,
+    startUndoGroup,
+    endUndoGroup,
+    effectsInit,
+} from './lib/actions';
 
 // Attention: The API of StoreCore is meant of internal use, e.g. for the Angular `NgReduxDevtoolsService`
 // The StoreCore API can change anytime soon!
@@ -1,6 +1,7 @@
 import { queueScheduler, Subject } from 'rxjs';
 import { observeOn } from 'rxjs/operators';
 import { Action, Actions } from './models';
+import { createBatchAction } from './actions';
 
 export class ActionsOnQueue {
     private actionsSource = new Subject<Action>();
@@ -8,7 +9,44 @@ export class ActionsOnQueue {
         observeOn(queueScheduler) // Prevent stack overflow: https://blog.cloudboost.io/so-how-does-rx-js-queuescheduler-actually-work-188c1b46526e
     );
 
+    // Collects the actions which are dispatched inside `batch`
+    private batchedActions: Action[] | undefined;
+
     dispatch(action: Action) {
+        if (this.batchedActions) {
+            this.batchedActions.push(action);
+            return;
+        }
         this.actionsSource.next(action);
     }
+
+    // If `fn` throws, then the actions of the batch are dropped: a failed batch does not change the state
+    batch(fn: () => void) {
+        if (this.batchedActions) {
+            // Nested batch: the actions are part of the outer batch
+            const outerActionsCount = this.batchedActions.length;
+            try {
+                fn();
+            } catch (err) {
+                this.batchedActions.length = outerActionsCount;
+                throw err;
+            }
+            return;
+        }
+
+        this.batchedActions = [];
+        try {
+            fn();
+        } catch (err) {
+            this.batchedActions = undefined;
+            throw err;
+        }
+
+        const actions = this.batchedActions;
+        this.batchedActions = undefined;
+
+        if (actions.length) {
+            this.dispatch(actions.length === 1 ? actions[0] : createBatchAction(actions));
+        }
+    }
 }
@@ -1,10 +1,12 @@
 import { Action, StateOrCallback } from './models';
 import { miniRxNameSpace } from './constants';
+import { createAction } from './create-action';
 
 export const enum MiniRxActionType {
     INIT = 'init',
     DESTROY = 'destroy',
     SET_STATE = 'set-state',
+    IMPORT_STATE = 'import-state',
 }
 
 export const enum SetStateActionType {
@@ -42,6 +44,22 @@ export function createMiniRxAction(
     };
 }
 
+// Replaces the state (see `importState`): Store and FeatureStore replace the features in the payload
+// Dispatched like every other action: e.g. the extensions see the imported state
+export function createImportStateAction(state: object, featureKey?: string): Action {
+    return {
+        type: createMiniRxActionType(MiniRxActionType.IMPORT_STATE, featureKey),
+        payload: state,
+    };
+}
+
+export function isImportStateAction(action: Action): boolean {
+    return (
+        action.type.startsWith(miniRxNameSpace + '/') &&
+        action.type.endsWith('/' + MiniRxActionType.IMPORT_STATE)
+    );
+}
+
 const setStateActionTypeKey: keyof SetStateAction<any> = 'setStateActionType';
 
 // Type predicate
@@ -58,6 +76,16 @@ export function isComponentStoreSetStateAction<StateType>(
 }
 
 export const UNDO_ACTION = miniRxNameSpace + '/undo';
+export const UNDO_LAST_ACTION = miniRxNameSpace + '/undo-last';
+export const REDO_ACTION = miniRxNameSpace + '/redo';
+export const CHECKPOINT_ACTION = miniRxNameSpace + '/checkpoint';
+export const UNDO_TO_CHECKPOINT_ACTION = miniRxNameSpace + '/undo-to-checkpoint';
+export const START_UNDO_GROUP_ACTION = miniRxNameSpace + '/start-undo-group';
+export const END_UNDO_GROUP_ACTION = miniRxNameSpace + '/end-undo-group';
+export const EFFECTS_INIT_ACTION = miniRxNameSpace + '/effects/init';
+
+// Dispatched once the effects are running (e.g. by the Angular `EffectsModule`)
+export const effectsInit = createAction(EFFECTS_INIT_ACTION);
 
 export function undo(action: Action) {
     return {
@@ -65,3 +93,87 @@ export function undo(action: Action) {
         payload: action,
     };
 }
+
+export function undoLast(count = 1) {
+    return {
+        type: UNDO_LAST_ACTION,
+        payload: count,
+    };
+}
+
+export function redo(count = 1) {
+    return {
+        type: REDO_ACTION,
+        payload: count,
+    };
+}
+
+export function checkpoint(name: string) {
+    return {
+        type: CHECKPOINT_ACTION,
+        payload: name,
+    };
+}
+
+export function undoToCheckpoint(name: string) {
+    return {
+        type: UNDO_TO_CHECKPOINT_ACTION,
+        payload: name,
+    };
+}
+
+// All undoable actions between `startUndoGroup` and `endUndoGroup` are undone/redone as one unit
+export function startUndoGroup() {
+    return {
+        type: START_UNDO_GROUP_ACTION,
+    };
+}
+
+export function endUndoGroup() {
+    return {
+        type: END_UNDO_GROUP_ACTION,
+    };
+}
+
+// MiniRx internal actions (e.g. init/destroy or undo actions) can not be undone
+// Exception: the setState actions of FeatureStore and ComponentStore
+export function isUndoableAction(action: Action): boolean {
+    if (isBatchAction(action)) {
+        return action.payload.some(isUndoableAction);
+    }
+
+    return (
+        !action.type.startsWith(miniRxNameSpace + '/') ||
+        isFeatureStoreSetStateAction(action) ||
+        isComponentStoreSetStateAction(action)
+    );
+}
+
+export const BATCH_ACTION = miniRxNameSpace + '/batch';
+
+export interface BatchAction extends Action {
+    type: typeof BATCH_ACTION;
+    payload: Action[];
+}
+
+// A batch action runs the reducers for all its actions, but the state is updated only once
+export function createBatchAction(actions: Action[]): BatchAction {
+    return {
+        type: BATCH_ACTION,
+        payload: actions,
+    };
+}
+
+export function isBatchAction(action: Action): action is BatchAction {
+    return action.type === BATCH_ACTION;
+}
+
+// Returns the single actions of a (nested) batch action
+export function unpackBatchAction(action: Action): Action[] {
+    return isBatchAction(action)
+        ? action.payload.reduce<Action[]>(
+              (actions, batchedAction) => [...actions, ...unpackBatchAction(batchedAction)],
+              []
+          )
+        : [action];
+}
@@ -1,8 +1,32 @@
-import { isObservable, Observable, Subject, Subscription } from 'rxjs';
+import {
+    defer,
+    distinctUntilChanged,
+    isObservable,
+    map,
+    Observable,
+    Subject,
+    Subscription,
+} from 'rxjs';
 import { miniRxError } from './utils';
 import { Action, SetStateParam, SetStateReturn, StateOrCallback } from './models';
-import { defaultEffectsErrorHandler } from './default-effects-error-handler';
+import {
+    defaultEffectsErrorHandler,
+    EffectsErrorHandlerConfig,
+} from './default-effects-error-handler';
 import { State } from './state';
+import {
+    checkpoint,
+    endUndoGroup,
+    redo,
+    startUndoGroup,
+    undo,
+    undoLast,
+    undoToCheckpoint,
+} from './actions';
+import { UndoHistory } from './extensions/undo.extension';
+import { createStateSnapshot, parseStateSnapshot, SerializerRegistry } from './serializer';
+import { Selector } from './selector';
+import { createSelectSignal, createViewModelSelector, ReadonlySignal, ViewModel } from './signals';
 
 // BaseStore is extended by ComponentStore/FeatureStore
 export abstract class BaseStore<StateType extends object> {
@@ -57,8 +81,86 @@ export abstract class BaseStore<StateType extends object> {
         name?: string
     ): Action;
 
-    // Implemented by ComponentStore/FeatureStore
-    abstract undo(action: Action): void;
+    /** @internal
+     * Implemented by ComponentStore/FeatureStore
+     */
+    abstract _dispatchUndoAction(action: Action): void;
+
+    /** @internal
+     * Implemented by ComponentStore/FeatureStore
+     */
+    abstract _selectUndoHistory(): Observable<UndoHistory>;
+
+    /** @internal
+     * Implemented by ComponentStore/FeatureStore
+     */
+    abstract _getEffectsErrorHandlerConfig(): EffectsErrorHandlerConfig;
+
+    /** @internal
+     * Implemented by ComponentStore/FeatureStore
+     */
+    abstract _getSerializer(): SerializerRegistry | undefined;
+
+    /** @internal
+     * Implemented by ComponentStore/FeatureStore
+     */
+    abstract _setImportedState(state: StateType): void;
+
+    // Returns a JSON snapshot of the state
+    exportState(): string {
+        return createStateSnapshot(this.state, this._getSerializer());
+    }
+
+    // Replaces the state with the state of the snapshot
+    importState(snapshot: string): void {
+        this.assertStateIsInitialized();
+        const state = parseStateSnapshot(snapshot, this._getSerializer());
+        this._setImportedState(state as StateType);
+    }
+
+    // The undo history requires the UndoExtension (the history is empty otherwise)
+    history$: Observable<UndoHistory> = defer(() => this._selectUndoHistory());
+    canUndo$: Observable<boolean> = this.history$.pipe(
+        map((history) => history.past.length > 0),
+        distinctUntilChanged()
+    );
+    canRedo$: Observable<boolean> = this.history$.pipe(
+        map((history) => history.future.length > 0),
+        distinctUntilChanged()
+    );
+
+    undo(action: Action): void {
+        this._dispatchUndoAction(undo(action));
+    }
+
+    undoLast(count = 1): void {
+        this._dispatchUndoAction(undoLast(count));
+    }
+
+    redo(count = 1): void {
+        this._dispatchUndoAction(redo(count));
+    }
+
+    checkpoint(name: string): void {
+        this._dispatchUndoAction(checkpoint(name));
+    }
+
+    undoToCheckpoint(name: string): void {
+        this._dispatchUndoAction(undoToCheckpoint(name));
+    }
+
+    // All setState calls inside `fn` are undone/redone as one unit
+    undoGroup(fn: () => void): void {
+        this._dispatchUndoAction(startUndoGroup());
+        try {
+            fn();
+        } finally {
+            this._dispatchUndoAction(endUndoGroup());
+        }
+    }
+
+    // All setState calls inside `fn` update the state only once
+    abstract batch(fn: () => void): void;
 
     effect<
         // Credits for the typings go to NgRx (Component Store): https://github.com/ngrx/platform/blob/13.1.0/modules/component-store/src/component-store.ts#L279-L291
@@ -74,7 +176,10 @@ export abstract class BaseStore<StateType extends object> {
     >(effectFn: (origin$: OriginType) => Observable<unknown>): ReturnType {
         const subject = new Subject<ObservableType>();
         const effect$ = effectFn(subject as OriginType);
-        const effectWithDefaultErrorHandler = defaultEffectsErrorHandler(effect$);
+        const effectWithDefaultErrorHandler = defaultEffectsErrorHandler(
+            effect$,
+            this._getEffectsErrorHandlerConfig()
+        );
 
         this._sub.add(effectWithDefaultErrorHandler.subscribe());
 
@@ -99,6 +204,15 @@ export abstract class BaseStore<StateType extends object> {
 
     select = this._state.select.bind(this._state);
 
+    // Signals require `configureSignals` (e.g. with the `signal` and `computed` functions of Angular)
+    selectSignal = createSelectSignal(this._state.select(), this._sub);
+
+    selectViewModel<Selectors extends Record<string, Selector<StateType, unknown>>>(
+        selectors: Selectors
+    ): ReadonlySignal<ViewModel<Selectors>> {
+        return this.selectSignal(createViewModelSelector(selectors));
+    }
+
     destroy() {
         this._sub.unsubscribe();
     }
@@ -4,22 +4,37 @@ import {
     ComponentStoreConfig,
     ComponentStoreExtension,
     ComponentStoreLike,
+    EffectError,
+    ExtensionHost,
     ExtensionId,
     MetaReducer,
     Reducer,
     StateOrCallback,
 } from './models';
-import { calcNewState, combineMetaReducers, miniRxError, sortExtensions } from './utils';
+import {
+    calcNewState,
+    combineMetaReducers,
+    createBatchReducer,
+    createInterceptorChain,
+    miniRxError,
+    sortExtensions,
+} from './utils';
 import {
     ComponentStoreSetStateAction,
+    createImportStateAction,
     createMiniRxAction,
     createMiniRxActionType,
     isComponentStoreSetStateAction,
+    isImportStateAction,
     MiniRxActionType,
     SetStateActionType,
-    undo,
+    unpackBatchAction,
 } from './actions';
 import { ActionsOnQueue } from './actions-on-queue';
+import { selectUndoHistory, UndoHistory } from './extensions/undo.extension';
+import { EffectsErrorHandlerConfig } from './default-effects-error-handler';
+import { mergeMap, Observable, Subject } from 'rxjs';
+import { SerializerRegistry } from './serializer';
 
 let componentStoreConfig: ComponentStoreConfig | undefined = undefined;
 
@@ -47,12 +62,42 @@ export class ComponentStore<StateType extends object>
     private actionsOnQueue = new ActionsOnQueue();
     private readonly combinedMetaReducer: MetaReducer<StateType>;
     private reducer: Reducer<StateType> | undefined;
+    // The reducer without meta reducers (see `ExtensionHost.getPlainReducer`)
+    private plainReducer: Reducer<StateType> | undefined;
     private hasUndoExtension = false;
     private extensions: ComponentStoreExtension[] = []; // This is a class property just for testing purposes
+    private extensionHost: ExtensionHost<any>;
+    private readonly dispatchFn: (action: Action) => void;
+    private readonly effectRetries: number | undefined;
+    private readonly effectErrors = new Subject<EffectError>();
+    // Emits the errors of the effects of this ComponentStore
+    readonly errors$: Observable<EffectError> = this.effectErrors.asObservable();
 
     constructor(initialState?: StateType, config?: ComponentStoreConfig) {
         super();
 
+        this.effectRetries = config?.effectRetries ?? componentStoreConfig?.effectRetries;
+
+        // Global interceptors run before the local interceptors
+        this.dispatchFn = createInterceptorChain<StateType>(
+            [...(componentStoreConfig?.interceptors ?? []), ...(config?.interceptors ?? [])],
+            {
+                dispatch: (action) => this.dispatch(action),
+                getState: () => this._state.get(),
+            },
+            (action) => this.actionsOnQueue.dispatch(action)
+        );
+
+        this.extensionHost = {
+            name: config?.name ?? this.constructor.name,
+            actions$: this.actionsOnQueue.actions$.pipe(mergeMap(unpackBatchAction)),
+            appState: this._state,
+            dispatch: (action) => this.dispatch(action),
+            serializer: config?.serializer ?? componentStoreConfig?.serializer,
+            onDestroy: (teardown) => this._sub.add(teardown),
+            getPlainReducer: () => this.plainReducer!, // Non-null assertion: the extensions use the reducer after the initial state is set
+        };
+
         const metaReducers: MetaReducer<StateType>[] = [];
 
         if (config?.extensions) {
@@ -75,7 +120,7 @@ export class ComponentStore<StateType extends object>
                 );
             }
 
-            metaReducers.push(ext.init()!); // Non-null assertion: Here we know for sure: init will return a MetaReducer
+            metaReducers.push(ext.init(this.extensionHost)!); // Non-null assertion: Here we know for sure: init will return a MetaReducer
 
             if (ext.id === ExtensionId.UNDO) {
                 this.hasUndoExtension = true;
@@ -103,7 +148,8 @@ export class ComponentStore<StateType extends object>
     override setInitialState(initialState: StateType): void {
         super.setInitialState(initialState);
 
-        this.reducer = this.combinedMetaReducer(createComponentStoreReducer(initialState));
+        this.plainReducer = createBatchReducer(createComponentStoreReducer(initialState));
+        this.reducer = this.combinedMetaReducer(this.plainReducer);
         this.dispatch(createMiniRxAction(MiniRxActionType.INIT, csFeatureKey));
     }
 
@@ -120,16 +166,55 @@ export class ComponentStore<StateType extends object>
     }
 
     private dispatch(action: Action) {
-        this.actionsOnQueue.dispatch(action);
+        this.dispatchFn(action);
     }
 
     // Implementation of abstract method from BaseStore
-    undo(action: Action) {
+    batch(fn: () => void): void {
+        this.actionsOnQueue.batch(fn);
+    }
+
+    /** @internal
+     * Implementation of abstract method from BaseStore
+     */
+    _dispatchUndoAction(action: Action): void {
         this.hasUndoExtension
-            ? this.dispatch(undo(action))
+            ? this.dispatch(action)
             : miniRxError(`${this.constructor.name} has no UndoExtension yet.`);
     }
 
+    /** @internal
+     * Implementation of abstract method from BaseStore
+     */
+    _selectUndoHistory(): Observable<UndoHistory> {
+        return selectUndoHistory(this.extensionHost);
+    }
+
+    /** @internal
+     * Implementation of abstract method from BaseStore
+     */
+    _getEffectsErrorHandlerConfig(): EffectsErrorHandlerConfig {
+        return {
+            retries: this.effectRetries,
+            storeName: this.extensionHost.name!, // Non-null assertion: the name is always set in the constructor
+            errors: this.effectErrors,
+        };
+    }
+
+    /** @internal
+     * Implementation of abstract method from BaseStore
+     */
+    _getSerializer(): SerializerRegistry | undefined {
+        return this.extensionHost.serializer;
+    }
+
+    /** @internal
+     * Implementation of abstract method from BaseStore
+     */
+    _setImportedState(state: StateType): void {
+        this.dispatch(createImportStateAction(state, csFeatureKey));
+    }
+
     override destroy() {
         if (this.reducer) {
             // Dispatch an action really just for logging via LoggerExtension
@@ -157,6 +242,9 @@ function createComponentStoreReducer<StateType>(initialState: StateType): Reduce
         if (isComponentStoreSetStateAction<StateType>(action)) {
             return calcNewState(state, action.stateOrCallback);
         }
+        if (isImportStateAction(action)) {
+            return action['payload'];
+        }
         return state;
     };
 }
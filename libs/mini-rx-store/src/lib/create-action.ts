@@ -0,0 +1,100 @@
+import { Action } from './models';
+
+export interface TypedAction<T extends string> extends Action {
+    readonly type: T;
+}
+
+export interface ActionCreatorProps<P> {
+    _as: 'props';
+    _p: P;
+}
+
+type Creator = (...args: any[]) => Action;
+
+// An Action Creator is a function which creates an action
+// It carries the action type as a literal type (and at runtime in the `type` property)
+export type ActionCreator<T extends string = string, C extends Creator = Creator> = C & {
+    readonly type: T;
+};
+
+type PropsActionCreator<T extends string, P> = [P] extends [void]
+    ? ActionCreator<T, () => TypedAction<T>>
+    : ActionCreator<T, (props: P) => P & TypedAction<T>>;
+
+export function props<P extends object>(): ActionCreatorProps<P> {
+    return { _as: 'props', _p: undefined as unknown as P };
+}
+
+export function emptyProps(): ActionCreatorProps<void> {
+    return { _as: 'props', _p: undefined };
+}
+
+export function createAction<T extends string>(type: T): ActionCreator<T, () => TypedAction<T>>;
+export function createAction<T extends string, P extends object>(
+    type: T,
+    config: ActionCreatorProps<P>
+): ActionCreator<T, (props: P) => P & TypedAction<T>>;
+export function createAction<T extends string>(
+    type: T,
+    config?: ActionCreatorProps<any>
+): ActionCreator<T> {
+    const creator = config ? (props: object) => ({ ...props, type }) : () => ({ type });
+
+    return Object.defineProperty(creator, 'type', {
+        value: type,
+        writable: false,
+    }) as unknown as ActionCreator<T>;
+}
+
+// Converts an event name to an action creator name: e.g. 'Load Success' => 'loadSuccess'
+type TitleCase<S extends string> = S extends `${infer First} ${infer Rest}`
+    ? `${Capitalize<First>}${TitleCase<Rest>}`
+    : Capitalize<S>;
+
+type ActionCreatorName<S extends string> = Uncapitalize<TitleCase<S>>;
+
+type EventCreators = Record<string, ActionCreatorProps<unknown>>;
+
+type EventActionCreator<
+    Source extends string,
+    EventName extends string,
+    EventProps
+> = EventProps extends ActionCreatorProps<infer P>
+    ? PropsActionCreator<`[${Source}] ${EventName}`, P>
+    : never;
+
+export type ActionGroup<Source extends string, Events extends EventCreators> = {
+    [EventName in keyof Events & string as ActionCreatorName<EventName>]: EventActionCreator<
+        Source,
+        EventName,
+        Events[EventName]
+    >;
+};
+
+export function createActionGroup<Source extends string, Events extends EventCreators>(config: {
+    source: Source;
+    events: Events;
+}): ActionGroup<Source, Events> {
+    return Object.keys(config.events).reduce((group, eventName) => {
+        const type = `[${config.source}] ${eventName}`;
+        // Creators with `emptyProps` are called without arguments: spreading `undefined` results in `{ type }`
+        group[toActionCreatorName(eventName)] = createAction(
+            type,
+            config.events[eventName] as ActionCreatorProps<object>
+        );
+
+        return group;
+    }, {} as Record<string, ActionCreator>) as ActionGroup<Source, Events>;
+}
+
+export function isActionCreator(v: unknown): v is ActionCreator {
+    return typeof v === 'function' && typeof (v as ActionCreator).type === 'string';
+}
+
+function toActionCreatorName(eventName: string): string {
+    const titleCase = eventName
+        .split(' ')
+        .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+        .join('');
+    return titleCase.charAt(0).toLowerCase() + titleCase.slice(1);
+}
@@ -26,8 +26,9 @@
 import { Observable } from 'rxjs';
 import { Action, EFFECT_METADATA_KEY, EffectConfig, HasEffectMetadata } from './models';
 
-const DEFAULT_EFFECT_CONFIG: Readonly<Required<EffectConfig>> = {
+const DEFAULT_EFFECT_CONFIG: Readonly<EffectConfig> = {
     dispatch: true,
+    useEffectsErrorHandler: true,
 };
 
 type DispatchType<T> = T extends { dispatch: infer U } ? U : true;
@@ -0,0 +1,52 @@
+import { Action, Reducer } from './models';
+import { ActionCreator } from './create-action';
+
+type OnReducer<StateType, Creators extends readonly ActionCreator[]> = (
+    state: StateType,
+    action: ReturnType<Creators[number]>
+) => StateType;
+
+export interface ReducerTypes<StateType, Creators extends readonly ActionCreator[]> {
+    reducer: OnReducer<StateType, Creators>;
+    types: string[];
+}
+
+// Associates one or many Action Creators with a state change function
+export function on<StateType, Creators extends readonly ActionCreator[]>(
+    ...args: [
+        ...creators: Creators,
+        reducer: OnReducer<StateType extends infer S ? S : never, Creators>
+    ]
+): ReducerTypes<StateType, Creators> {
+    const reducer = args.pop() as OnReducer<StateType, Creators>;
+    const types = (args as unknown as Creators).map((creator) => creator.type);
+    return { reducer, types };
+}
+
+export function createReducer<StateType>(
+    initialState: StateType,
+    ...ons: ReducerTypes<StateType, readonly ActionCreator[]>[]
+): Reducer<StateType> {
+    // Lookup map: action type => state change function
+    // The reducer does not have to scan all `on` handlers for every dispatched action
+    const reducersByType = new Map<string, Reducer<StateType>>();
+
+    ons.forEach((onItem) => {
+        const onReducer = onItem.reducer as Reducer<StateType>;
+        onItem.types.forEach((type) => {
+            const existingReducer = reducersByType.get(type);
+            // If an action type is handled more than once, then the state change functions are called in order
+            reducersByType.set(
+                type,
+                existingReducer
+                    ? (state, action) => onReducer(existingReducer(state, action), action)
+                    : onReducer
+            );
+        });
+    });
+
+    return (state: StateType = initialState, action: Action): StateType => {
+        const reducer = reducersByType.get(action.type);
+        return reducer ? reducer(state, action) : state;
+    };
+}
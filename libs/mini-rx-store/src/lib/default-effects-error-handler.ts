@@ -24,28 +24,59 @@
 // OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
 // SOFTWARE.
 
-import { Observable } from 'rxjs';
-import { catchError } from 'rxjs/operators';
+import { Observable, Subject } from 'rxjs';
+import { catchError, tap } from 'rxjs/operators';
 import { miniRxConsoleError } from './utils';
+import { EffectError } from './models';
+
+export const DEFAULT_EFFECT_RETRIES = 10;
+
+export interface EffectsErrorHandlerConfig {
+    retries?: number;
+    // Identifies the source of an error in `errors$`
+    storeName: string;
+    effectName?: string;
+    // The errors are emitted in the `errors$` of the store as well
+    errors?: Subject<EffectError>;
+}
+
+const effectErrors = new Subject<EffectError>();
+
+// Emits the errors of all effects of all stores (e.g. to report them to an error tracking service)
+// Use `errors$` of a store (Store or ComponentStore) for the errors of that store only
+export const errors$: Observable<EffectError> = effectErrors.asObservable();
 
 // Prevent effect to unsubscribe from the actions stream
 export function defaultEffectsErrorHandler<T>(
     observable$: Observable<T>,
-    retryAttemptLeft: number = 10
+    config: EffectsErrorHandlerConfig,
+    retryAttemptLeft = config.retries ?? DEFAULT_EFFECT_RETRIES
 ): Observable<T> {
+    const reportError = (error: unknown) => {
+        const effectError: EffectError = {
+            error,
+            storeName: config.storeName,
+            effectName: config.effectName,
+        };
+        config.errors?.next(effectError);
+        effectErrors.next(effectError);
+    };
+
+    if (retryAttemptLeft <= 0) {
+        return observable$.pipe(tap({ error: reportError })); // last attempt
+    }
+
     return observable$.pipe(
         catchError((error) => {
+            reportError(error);
             miniRxConsoleError(
                 `An error occurred in the Effect. MiniRx resubscribed the Effect automatically and will do so ${
                     retryAttemptLeft - 1
                 } more times.\nPlease provide error handling inside the Effect using \`catchError\` or \`tapResponse\`.`,
                 error
             );
-            if (retryAttemptLeft <= 1) {
-                return observable$; // last attempt
-            }
             // Return observable that produces this particular effect
-            return defaultEffectsErrorHandler(observable$, retryAttemptLeft - 1);
+            return defaultEffectsErrorHandler(observable$, config, retryAttemptLeft - 1);
         })
     );
 }
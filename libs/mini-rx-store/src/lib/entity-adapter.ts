@@ -0,0 +1,256 @@
+import { createSelector, Selector } from './selector';
+import { createLruMemoizer } from './memoize';
+
+export type EntityId = string | number;
+
+export type EntityDictionary<T> = Record<EntityId, T>;
+
+export interface EntityState<T> {
+    ids: EntityId[];
+    entities: EntityDictionary<T>;
+}
+
+export interface Update<T> {
+    id: EntityId;
+    changes: Partial<T>;
+}
+
+export type IdSelector<T> = (entity: T) => EntityId;
+
+export type Comparer<T> = (a: T, b: T) => number;
+
+export type EntityMapFn<T> = (entity: T) => T;
+
+export interface EntityAdapterConfig<T> {
+    selectId?: IdSelector<T>;
+    sortComparer?: Comparer<T>;
+}
+
+export interface EntitySelectors<T, V> {
+    selectIds: Selector<V, EntityId[]>;
+    selectEntities: Selector<V, EntityDictionary<T>>;
+    selectAll: Selector<V, T[]>;
+    selectTotal: Selector<V, number>;
+    selectById: (id: EntityId) => Selector<V, T | undefined>;
+}
+
+// Every state operator can be used in two ways:
+// 1. With state: returns the new state (e.g. inside a Redux reducer)
+// 2. Without state: returns a callback (e.g. for `FeatureStore.setState`)
+type StateOperator<T, Arg> = {
+    <S extends EntityState<T>>(arg: Arg, state: S): S;
+    <S extends EntityState<T>>(arg: Arg): (state: S) => S;
+};
+
+type StateOperatorWithoutArg<T> = {
+    <S extends EntityState<T>>(state: S): S;
+};
+
+export interface EntityAdapter<T> {
+    selectId: IdSelector<T>;
+    sortComparer: Comparer<T> | undefined;
+    getInitialState(): EntityState<T>;
+    getInitialState<S extends object>(state: S): EntityState<T> & S;
+    addOne: StateOperator<T, T>;
+    addMany: StateOperator<T, T[]>;
+    setAll: StateOperator<T, T[]>;
+    setOne: StateOperator<T, T>;
+    upsertOne: StateOperator<T, T>;
+    upsertMany: StateOperator<T, T[]>;
+    updateOne: StateOperator<T, Update<T>>;
+    updateMany: StateOperator<T, Update<T>[]>;
+    removeOne: StateOperator<T, EntityId>;
+    removeMany: StateOperator<T, EntityId[]>;
+    removeAll: StateOperatorWithoutArg<T>;
+    map: StateOperator<T, EntityMapFn<T>>;
+    getSelectors(): EntitySelectors<T, EntityState<T>>;
+    getSelectors<V>(selectState: Selector<V, EntityState<T>>): EntitySelectors<T, V>;
+}
+
+export function createEntityAdapter<T>(config: EntityAdapterConfig<T> = {}): EntityAdapter<T> {
+    const selectId: IdSelector<T> = config.selectId ?? ((entity: any) => entity.id);
+    const sortComparer = config.sortComparer;
+
+    // Calculates the new ids and entities: returns the original state if nothing has changed
+    function commit<S extends EntityState<T>>(
+        state: S,
+        entities: EntityDictionary<T>,
+        ids: EntityId[]
+    ): S {
+        if (entities === state.entities && ids === state.ids) {
+            return state;
+        }
+        return {
+            ...state,
+            entities,
+            ids: sortComparer ? sortIds(ids, entities, sortComparer) : ids,
+        };
+    }
+
+    function upsertEntities<S extends EntityState<T>>(
+        newEntities: T[],
+        state: S,
+        mode: 'add' | 'set' | 'upsert'
+    ): S {
+        let entities = state.entities;
+        let ids = state.ids;
+
+        newEntities.forEach((entity) => {
+            const id = selectId(entity);
+            const exists = hasId(entities, id);
+
+            if (exists && mode === 'add') {
+                return;
+            }
+
+            if (entities === state.entities) {
+                entities = { ...entities };
+            }
+
+            entities[id] = exists && mode === 'upsert' ? { ...entities[id], ...entity } : entity;
+
+            if (!exists) {
+                ids = [...ids, id];
+            }
+        });
+
+        return commit(state, entities, ids);
+    }
+
+    function updateEntities<S extends EntityState<T>>(updates: Update<T>[], state: S): S {
+        let entities = state.entities;
+        let ids = state.ids;
+
+        updates.forEach((update) => {
+            if (!hasId(entities, update.id)) {
+                return;
+            }
+
+            if (entities === state.entities) {
+                entities = { ...entities };
+            }
+
+            const updatedEntity: T = { ...entities[update.id], ...update.changes };
+            const newId = selectId(updatedEntity);
+
+            if (newId !== update.id) {
+                // The update changed the id of the entity
+                delete entities[update.id];
+                ids = hasId(entities, newId)
+                    ? // The new id exists already: the updated entity replaces the existing entity (last wins)
+                      ids.filter((id) => id !== update.id)
+                    : ids.map((id) => (id === update.id ? newId : id));
+            }
+
+            entities[newId] = updatedEntity;
+        });
+
+        return commit(state, entities, ids);
+    }
+
+    function removeEntities<S extends EntityState<T>>(idsToRemove: EntityId[], state: S): S {
+        const existingIdsToRemove = idsToRemove.filter((id) => hasId(state.entities, id));
+
+        if (!existingIdsToRemove.length) {
+            return state;
+        }
+
+        const entities = { ...state.entities };
+        existingIdsToRemove.forEach((id) => delete entities[id]);
+
+        return commit(
+            state,
+            entities,
+            state.ids.filter((id) => !existingIdsToRemove.includes(id))
+        );
+    }
+
+    function mapEntities<S extends EntityState<T>>(mapFn: EntityMapFn<T>, state: S): S {
+        const updates: Update<T>[] = state.ids.reduce<Update<T>[]>((result, id) => {
+            const entity = state.entities[id];
+            const mappedEntity = mapFn(entity);
+            if (mappedEntity !== entity) {
+                result.push({ id, changes: mappedEntity });
+            }
+            return result;
+        }, []);
+
+        return updateEntities(updates, state);
+    }
+
+    return {
+        selectId,
+        sortComparer,
+        getInitialState: (state: object = {}) => ({ ...state, ids: [], entities: {} }),
+        addOne: createStateOperator((entity: T, state) => upsertEntities([entity], state, 'add')),
+        addMany: createStateOperator((entities: T[], state) =>
+            upsertEntities(entities, state, 'add')
+        ),
+        setAll: createStateOperator((entities: T[], state) =>
+            upsertEntities(entities, { ...state, ids: [], entities: {} }, 'set')
+        ),
+        setOne: createStateOperator((entity: T, state) => upsertEntities([entity], state, 'set')),
+        upsertOne: createStateOperator((entity: T, state) =>
+            upsertEntities([entity], state, 'upsert')
+        ),
+        upsertMany: createStateOperator((entities: T[], state) =>
+            upsertEntities(entities, state, 'upsert')
+        ),
+        updateOne: createStateOperator((update: Update<T>, state) =>
+            updateEntities([update], state)
+        ),
+        updateMany: createStateOperator(updateEntities),
+        removeOne: createStateOperator((id: EntityId, state) => removeEntities([id], state)),
+        removeMany: createStateOperator(removeEntities),
+        removeAll: (state) => (state.ids.length ? { ...state, ids: [], entities: {} } : state),
+        map: createStateOperator(mapEntities),
+        getSelectors: (selectState?: Selector<any, EntityState<T>>) =>
+            createEntitySelectors<T>(selectState),
+    } as EntityAdapter<T>;
+}
+
+function createStateOperator<T, Arg>(
+    operator: <S extends EntityState<T>>(arg: Arg, state: S) => S
+): StateOperator<T, Arg> {
+    return (<S extends EntityState<T>>(arg: Arg, state?: S) =>
+        state ? operator(arg, state) : (s: S) => operator(arg, s)) as StateOperator<T, Arg>;
+}
+
+const selectByIdCacheSize = 100;
+
+function createEntitySelectors<T>(
+    selectState: Selector<any, EntityState<T>> = (state) => state
+): EntitySelectors<T, any> {
+    const selectIds = createSelector(selectState, (state) => state.ids);
+    const selectEntities = createSelector(selectState, (state) => state.entities);
+    const selectAll = createSelector(selectIds, selectEntities, (ids, entities) =>
+        ids.map((id) => entities[id])
+    );
+    const selectTotal = createSelector(selectIds, (ids) => ids.length);
+    // One memoized selector per id: `selectById(1)` returns the same selector on every call
+    // Only the selectors of the most recently used ids are kept (e.g. for long-lived lists)
+    const selectById = createLruMemoizer(selectByIdCacheSize)(
+        (id: EntityId): Selector<any, T | undefined> =>
+            createSelector(selectEntities, (entities): T | undefined => entities[id])
+    );
+
+    return {
+        selectIds,
+        selectEntities,
+        selectAll,
+        selectTotal,
+        selectById,
+    };
+}
+
+function sortIds<T>(
+    ids: EntityId[],
+    entities: EntityDictionary<T>,
+    sortComparer: Comparer<T>
+): EntityId[] {
+    return [...ids].sort((a, b) => sortComparer(entities[a], entities[b]));
+}
+
+function hasId<T>(entities: EntityDictionary<T>, id: EntityId): boolean {
+    return Object.prototype.hasOwnProperty.call(entities, id);
+}
@@ -1,37 +1,219 @@
 import {
     Action,
+    ExtensionHost,
     ExtensionId,
     HasComponentStoreSupport,
     MetaReducer,
     Reducer,
     StoreExtension,
 } from '../models';
-import { beautifyActionForLogging } from '../utils';
+import { beautifyActionForLogging, isPlainObjectOrArray, now } from '../utils';
+import { isFeatureStoreSetStateAction } from '../actions';
+import { SerializerRegistry } from '../serializer';
+
+export interface StateDiff {
+    // Property path of the changed value (e.g. "todos.items.0.done")
+    path: string;
+    prev: unknown;
+    next: unknown;
+}
+
+export interface LogEntry {
+    action: Action;
+    prevState: any;
+    nextState: any;
+    // Duration of the reducer call in milliseconds
+    duration: number;
+    // Only calculated if the `diff` option is enabled
+    diff?: StateDiff[];
+}
+
+export type LogSink = (entry: LogEntry) => void;
+
+export interface LoggerOptions {
+    // Logs only the actions which match the predicate
+    predicate: (action: Action, nextState: any) => boolean;
+    // Logs only the actions with these types
+    actionTypes: string[];
+    // Logs only the actions which change the state of these feature keys (Component Store: state properties)
+    featureKeys: string[];
+    // The options below are used by the default console sink
+    // Uses `console.groupCollapsed`
+    collapsed: boolean;
+    // Logs the previous state
+    prevState: boolean;
+    // Logs the changed values
+    diff: boolean;
+    // Logs the duration of the reducer call
+    timing: boolean;
+    // Logs plain text without CSS styling (e.g. in Node or Jest)
+    plainText: boolean;
+    // Replaces the console output: e.g. `createBufferSink()` or a custom function
+    sink: LogSink;
+    // Serializes the plain text output (default: the `serializer` of the store config)
+    serializer: SerializerRegistry;
+}
 
 export class LoggerExtension extends StoreExtension implements HasComponentStoreSupport {
     id = ExtensionId.LOGGER;
     hasCsSupport = true as const;
 
-    init(): MetaReducer<any> {
-        return loggerMetaReducer;
+    constructor(private options: Partial<LoggerOptions> = {}) {
+        super();
+    }
+
+    init(host?: ExtensionHost): MetaReducer<any> {
+        return createLoggerMetaReducer({
+            ...this.options,
+            serializer: this.options.serializer ?? host?.serializer,
+        });
     }
 }
 
-function loggerMetaReducer(reducer: Reducer<any>): Reducer<any> {
-    return (state, action) => {
-        const actionToLog: Action = beautifyActionForLogging(action, state);
+function createLoggerMetaReducer(options: Partial<LoggerOptions>): MetaReducer<any> {
+    const sink: LogSink = options.sink ?? createConsoleSink(options);
+
+    return (reducer: Reducer<any>): Reducer<any> => {
+        return (state, action) => {
+            const start = now();
+            const nextState = reducer(state, action);
+            const duration = now() - start;
+
+            if (shouldLog(options, action, state, nextState)) {
+                sink({
+                    action: beautifyActionForLogging(action, state),
+                    prevState: state,
+                    nextState,
+                    duration,
+                    diff: options.diff ? diffState(state, nextState) : undefined,
+                });
+            }
+
+            return nextState;
+        };
+    };
+}
+
+function shouldLog(
+    options: Partial<LoggerOptions>,
+    action: Action,
+    prevState: any,
+    nextState: any
+): boolean {
+    if (options.actionTypes && !options.actionTypes.includes(action.type)) {
+        return false;
+    }
+    if (options.featureKeys) {
+        const featureKeys = options.featureKeys;
+        const isFeatureAction =
+            isFeatureStoreSetStateAction(action) && featureKeys.includes(action.featureKey);
+        const hasChangedFeatureState = featureKeys.some(
+            (key) => prevState?.[key] !== nextState?.[key]
+        );
+        if (!isFeatureAction && !hasChangedFeatureState) {
+            return false;
+        }
+    }
+    return options.predicate ? options.predicate(action, nextState) : true;
+}
 
-        const nextState = reducer(state, action);
+function createConsoleSink(options: Partial<LoggerOptions>): LogSink {
+    return (entry) => {
+        if (options.plainText) {
+            console.log(formatLogEntry(entry, options));
+            return;
+        }
 
-        console.log(
-            '%c' + action.type,
-            'color: #25c2a0',
+        const title =
+            '%c' + entry.action.type + (options.timing ? ` (${formatDuration(entry)})` : '');
+        const details: unknown[] = [
+            ...(options.prevState ? ['\nPrev State: ', entry.prevState] : []),
             '\nAction:',
-            actionToLog,
+            entry.action,
             '\nState: ',
-            nextState
-        );
+            entry.nextState,
+            ...(entry.diff ? ['\nDiff: ', entry.diff] : []),
+        ];
+
+        if (options.collapsed) {
+            console.groupCollapsed(title, 'color: #25c2a0');
+            console.log(...details);
+            console.groupEnd();
+        } else {
+            console.log(title, 'color: #25c2a0', ...details);
+        }
+    };
+}
+
+// Collects the log entries in memory (e.g. to attach them to bug reports or to inspect them in tests)
+export function createBufferSink(maxEntries = 100): LogSink & {
+    entries: LogEntry[];
+    clear(): void;
+} {
+    const entries: LogEntry[] = [];
 
-        return nextState;
+    const sink: LogSink = (entry) => {
+        entries.push(entry);
+        if (entries.length > maxEntries) {
+            entries.shift();
+        }
     };
+
+    return Object.assign(sink, {
+        entries,
+        clear: () => {
+            entries.length = 0;
+        },
+    });
+}
+
+// Formats a log entry as plain text (without CSS styling) for non-browser environments
+export function formatLogEntry(
+    entry: LogEntry,
+    options: Partial<Pick<LoggerOptions, 'prevState' | 'timing' | 'serializer'>> = {}
+): string {
+    const stringify = (value: unknown) => stringifyForLogging(value, options.serializer);
+    return [
+        entry.action.type + (options.timing ? ` (${formatDuration(entry)})` : ''),
+        ...(options.prevState ? ['Prev State: ' + stringify(entry.prevState)] : []),
+        'Action: ' + stringify(entry.action),
+        'State: ' + stringify(entry.nextState),
+        ...(entry.diff ? ['Diff: ' + stringify(entry.diff)] : []),
+    ].join('\n');
+}
+
+function formatDuration(entry: LogEntry): string {
+    return entry.duration.toFixed(2) + ' ms';
+}
+
+function stringifyForLogging(value: unknown, serializer?: SerializerRegistry): string {
+    return JSON.stringify(value, function (key, v) {
+        const replaced = serializer ? serializer.replacer.call(this, key, v) : v;
+        // e.g. setState callbacks
+        return typeof replaced === 'function' ? '[Function]' : replaced;
+    });
+}
+
+// Returns the changed values of two (immutable) states
+// Unchanged branches are skipped by reference
+function diffState(prev: unknown, next: unknown, path: string[] = []): StateDiff[] {
+    if (prev === next) {
+        return [];
+    }
+    if (
+        !isPlainObjectOrArray(prev) ||
+        !isPlainObjectOrArray(next) ||
+        Array.isArray(prev) !== Array.isArray(next)
+    ) {
+        return [{ path: path.join('.'), prev, next }];
+    }
+
+    const prevRecord = prev as Record<string, unknown>;
+    const nextRecord = next as Record<string, unknown>;
+    const keys = Array.from(new Set([...Object.keys(prevRecord), ...Object.keys(nextRecord)]));
+
+    return keys.reduce<StateDiff[]>(
+        (diffs, key) => [...diffs, ...diffState(prevRecord[key], nextRecord[key], [...path, key])],
+        []
+    );
 }
@@ -0,0 +1,205 @@
+import { auditTime, defer, map, Observable, startWith, Subject } from 'rxjs';
+import {
+    Action,
+    ExtensionHost,
+    ExtensionId,
+    HasComponentStoreSupport,
+    MetaReducer,
+    Reducer,
+    StoreExtension,
+} from '../models';
+import { miniRxConsoleWarn, now } from '../utils';
+
+export interface PerformanceOptions {
+    // Warns if the reducer chain takes longer than the budget (in milliseconds)
+    budget: number;
+    // Number of the latest measurements per action type and feature key which are used for the percentiles
+    windowSize: number;
+    // Number of the slowest actions in `stats$`
+    topOffendersCount: number;
+    // Minimum time between two emissions of `stats$` (in milliseconds)
+    statsInterval: number;
+    // Returns the current time in milliseconds (e.g. a fake clock for deterministic tests)
+    clock: () => number;
+}
+
+export interface TimingStats {
+    count: number;
+    max: number;
+    p50: number;
+    p90: number;
+    p99: number;
+}
+
+export interface PerformanceMeasurement {
+    actionType: string;
+    duration: number;
+}
+
+export interface PerformanceStats {
+    // Stats per action type
+    actions: Record<string, TimingStats>;
+    // Stats per feature key (Component Store: name of the store)
+    features: Record<string, TimingStats>;
+    // The slowest actions within the rolling window
+    topOffenders: PerformanceMeasurement[];
+}
+
+const defaultOptions: PerformanceOptions = {
+    budget: 16, // One frame at 60 fps
+    windowSize: 100,
+    topOffendersCount: 5,
+    statsInterval: 500,
+    clock: now,
+};
+
+// Recommended for development only
+export class PerformanceExtension extends StoreExtension implements HasComponentStoreSupport {
+    id = ExtensionId.PERFORMANCE;
+    hasCsSupport = true as const;
+
+    private readonly options: PerformanceOptions;
+
+    private actionDurations = new Map<string, number[]>();
+    private featureDurations = new Map<string, number[]>();
+    private measurements: PerformanceMeasurement[] = [];
+    // Durations of the feature reducers of the current action
+    private currentFeatureDurations = new Map<string, number>();
+
+    private measurementsChanged = new Subject<void>();
+    // Emits the stats on subscribe and then at most once per `statsInterval`
+    // The stats are calculated outside of the reducers: measuring stays cheap
+    stats$: Observable<PerformanceStats> = defer(() =>
+        this.measurementsChanged.pipe(
+            auditTime(this.options.statsInterval),
+            startWith(undefined),
+            map(() => this.getStats())
+        )
+    );
+
+    constructor(options: Partial<PerformanceOptions> = {}) {
+        super();
+        this.options = { ...defaultOptions, ...options };
+    }
+
+    init(host?: ExtensionHost): MetaReducer<any> {
+        host?.wrapFeatureReducers?.((reducer, featureKey) =>
+            this.measureFeature(reducer, featureKey)
+        );
+
+        return (reducer: Reducer<any>): Reducer<any> => {
+            return (state, action) => {
+                this.currentFeatureDurations.clear();
+
+                const start = this.options.clock();
+                const nextState = reducer(state, action);
+                const duration = this.options.clock() - start;
+
+                // Component Store: the reducer of the store is the only feature reducer
+                if (host?.name) {
+                    this.currentFeatureDurations.set(host.name, duration);
+                }
+                this.measure(action, duration);
+
+                return nextState;
+            };
+        };
+    }
+
+    getStats(): PerformanceStats {
+        return {
+            actions: calcTimingStatsRecord(this.actionDurations),
+            features: calcTimingStatsRecord(this.featureDurations),
+            topOffenders: [...this.measurements]
+                .sort((a, b) => b.duration - a.duration)
+                .slice(0, this.options.topOffendersCount),
+        };
+    }
+
+    resetStats(): void {
+        this.actionDurations.clear();
+        this.featureDurations.clear();
+        this.measurements = [];
+        this.measurementsChanged.next();
+    }
+
+    private measureFeature(reducer: Reducer<any>, featureKey: string): Reducer<any> {
+        return (state, action) => {
+            const start = this.options.clock();
+            const nextState = reducer(state, action);
+            const duration = this.options.clock() - start;
+
+            // A batch action runs the feature reducer for every action of the batch
+            this.currentFeatureDurations.set(
+                featureKey,
+                (this.currentFeatureDurations.get(featureKey) ?? 0) + duration
+            );
+
+            return nextState;
+        };
+    }
+
+    private measure(action: Action, duration: number): void {
+        const { budget, windowSize } = this.options;
+
+        if (duration > budget) {
+            miniRxConsoleWarn(
+                `Action "${
+                    action.type
+                }" exceeded the reducer budget of ${budget} ms (took ${duration.toFixed(2)} ms).`
+            );
+        }
+
+        addToWindow(this.actionDurations, action.type, duration, windowSize);
+        // Every feature reducer which ran (also if it returned the same state: e.g. a slow lookup)
+        this.currentFeatureDurations.forEach((featureDuration, featureKey) =>
+            addToWindow(this.featureDurations, featureKey, featureDuration, windowSize)
+        );
+
+        this.measurements.push({ actionType: action.type, duration });
+        if (this.measurements.length > windowSize) {
+            this.measurements.shift();
+        }
+
+        this.measurementsChanged.next();
+    }
+}
+
+function addToWindow(
+    durations: Map<string, number[]>,
+    key: string,
+    duration: number,
+    windowSize: number
+): void {
+    const window = durations.get(key) ?? [];
+    window.push(duration);
+    if (window.length > windowSize) {
+        window.shift();
+    }
+    durations.set(key, window);
+}
+
+function calcTimingStatsRecord(durations: Map<string, number[]>): Record<string, TimingStats> {
+    const record: Record<string, TimingStats> = {};
+    durations.forEach((window, key) => {
+        record[key] = calcTimingStats(window);
+    });
+    return record;
+}
+
+function calcTimingStats(window: number[]): TimingStats {
+    const sorted = [...window].sort((a, b) => a - b);
+    return {
+        count: sorted.length,
+        max: sorted[sorted.length - 1],
+        p50: percentile(sorted, 50),
+        p90: percentile(sorted, 90),
+        p99: percentile(sorted, 99),
+    };
+}
+
+// Nearest-rank method
+function percentile(sorted: number[], p: number): number {
+    const rank = Math.ceil((p / 100) * sorted.length);
+    return sorted[Math.max(rank - 1, 0)];
+}
@@ -0,0 +1,279 @@
+import {
+    Action,
+    AppState,
+    ExtensionHost,
+    ExtensionId,
+    HasComponentStoreSupport,
+    MetaReducer,
+    Reducer,
+    StoreExtension,
+} from '../models';
+import { miniRxConsoleError, miniRxError } from '../utils';
+import { miniRxNameSpace } from '../constants';
+import { SerializerRegistry } from '../serializer';
+
+// Compatible with the Web Storage API: `localStorage` and `sessionStorage` can be used directly
+// Custom (async) adapters can return Promises
+export interface PersistStorage {
+    getItem(key: string): string | null | Promise<string | null>;
+    setItem(key: string, value: string): void | Promise<void>;
+}
+
+export type PersistMigrations = Record<number, (state: any) => any>;
+
+export interface PersistStateOptions {
+    // Key of the storage item
+    storageKey: string;
+    // Keys of the state which should be persisted (default: all keys)
+    // Redux Store: feature keys, Component Store: state properties
+    keys: string[];
+    storage: PersistStorage;
+    // Write to the storage at most once per `throttleTime` milliseconds (default: 0 = write immediately)
+    throttleTime: number;
+    // Version of the persisted state schema
+    version: number;
+    // Migration functions: the key is the version which the migration function migrates to
+    migrations: PersistMigrations;
+    // Serializes the persisted state (default: the `serializer` of the store config)
+    serializer: SerializerRegistry;
+}
+
+interface PersistedItem {
+    version: number;
+    state: AppState;
+}
+
+export const PERSIST_HYDRATE_ACTION = miniRxNameSpace + '/persist/hydrate';
+
+const defaultOptions: Partial<PersistStateOptions> = {
+    storageKey: miniRxNameSpace + '/persist',
+    throttleTime: 0,
+    version: 0,
+    migrations: {},
+};
+
+export class PersistStateExtension extends StoreExtension implements HasComponentStoreSupport {
+    id = ExtensionId.PERSIST_STATE;
+    hasCsSupport = true as const;
+
+    private readonly options: PersistStateOptions;
+    // The storage keys of the Component Stores which use this extension (e.g. registered with `configureComponentStores`)
+    private readonly componentStoreStorageKeys = new Set<string>();
+
+    constructor(options: Partial<PersistStateOptions> = {}) {
+        super();
+
+        const storage =
+            options.storage ?? (typeof localStorage !== 'undefined' ? localStorage : undefined);
+
+        if (!storage) {
+            miniRxError('PersistStateExtension: No storage available. Please provide a storage.');
+        }
+
+        this.options = {
+            ...defaultOptions,
+            ...options,
+            storage,
+        } as PersistStateOptions;
+    }
+
+    init(host?: ExtensionHost): MetaReducer<any> {
+        // Only Component Stores have a name: every Component Store gets its own storage item
+        if (!host?.name) {
+            return createPersistStateMetaReducer(this.options, host);
+        }
+
+        const storageKey = `${this.options.storageKey}/${host.name}`;
+        if (this.componentStoreStorageKeys.has(storageKey)) {
+            miniRxError(
+                `PersistStateExtension: The storage key "${storageKey}" is used by another Component Store. Please give the Component Store a unique name.`
+            );
+        }
+        this.componentStoreStorageKeys.add(storageKey);
+        host.onDestroy?.(() => this.componentStoreStorageKeys.delete(storageKey));
+
+        return createPersistStateMetaReducer({ ...this.options, storageKey }, host);
+    }
+}
+
+export function createInMemoryStorage(): PersistStorage {
+    const items = new Map<string, string>();
+    return {
+        getItem: (key) => items.get(key) ?? null,
+        setItem: (key, value) => {
+            items.set(key, value);
+        },
+    };
+}
+
+function createPersistStateMetaReducer(
+    options: PersistStateOptions,
+    host: ExtensionHost | undefined
+): MetaReducer<any> {
+    // Persisted state which is not yet merged into the store state
+    // (e.g. the state of a feature which has not been added yet)
+    let pendingState: AppState = {};
+    let isLoaded = false;
+    let lastWrittenState: AppState = {};
+    let latestState: AppState | undefined;
+    let writeTimeoutId: ReturnType<typeof setTimeout> | undefined;
+    const serializer: SerializerRegistry | undefined = options.serializer ?? host?.serializer;
+
+    function onLoad(persisted: string | null) {
+        pendingState = parsePersistedItem(persisted, options, serializer);
+        isLoaded = true;
+
+        // The store state exists already (async storage): merge the persisted state with an extra action
+        if (host?.appState.get() && Object.keys(pendingState).length) {
+            host.dispatch({ type: PERSIST_HYDRATE_ACTION });
+        }
+    }
+
+    function hydrate(state: AppState): AppState {
+        // Only hydrate keys which exist already (e.g. Redux Store: features which have been added)
+        const keysToHydrate = Object.keys(pendingState).filter((key) => hasKey(state, key));
+
+        if (!keysToHydrate.length) {
+            return state;
+        }
+
+        const hydratedState: AppState = { ...state };
+        keysToHydrate.forEach((key) => {
+            hydratedState[key] = isPlainObject(state[key])
+                ? { ...state[key], ...pendingState[key] }
+                : pendingState[key];
+        });
+        pendingState = omitKeys(pendingState, keysToHydrate);
+
+        return hydratedState;
+    }
+
+    function scheduleWrite(state: AppState) {
+        latestState = state;
+
+        if (options.throttleTime <= 0) {
+            write();
+            return;
+        }
+
+        if (!writeTimeoutId) {
+            writeTimeoutId = setTimeout(write, options.throttleTime);
+        }
+    }
+
+    function write() {
+        writeTimeoutId = undefined;
+
+        const state = latestState!;
+        const keys = options.keys ?? Object.keys(state);
+        const hasChanges = keys.some((key) => state[key] !== lastWrittenState[key]);
+
+        if (!hasChanges) {
+            return;
+        }
+
+        const stateToPersist: AppState = { ...pendingState };
+        keys.forEach((key) => {
+            if (hasKey(state, key)) {
+                stateToPersist[key] = state[key];
+            }
+        });
+        lastWrittenState = stateToPersist;
+
+        const item: PersistedItem = {
+            version: options.version,
+            state: stateToPersist,
+        };
+
+        try {
+            const result = options.storage.setItem(
+                options.storageKey,
+                serializer ? serializer.stringify(item) : JSON.stringify(item)
+            );
+            if (result instanceof Promise) {
+                result.catch((err) => miniRxConsoleError('Persisting state failed.', err));
+            }
+        } catch (err) {
+            miniRxConsoleError('Persisting state failed.', err);
+        }
+    }
+
+    const persisted = options.storage.getItem(options.storageKey);
+    persisted instanceof Promise
+        ? persisted.then(onLoad, (err) => {
+              miniRxConsoleError('Loading persisted state failed.', err);
+              isLoaded = true;
+          })
+        : onLoad(persisted);
+
+    return (reducer: Reducer<any>): Reducer<any> => {
+        return (state: any, action: Action) => {
+            let nextState = reducer(state, action);
+
+            if (!nextState) {
+                return nextState;
+            }
+
+            if (Object.keys(pendingState).length) {
+                nextState = hydrate(nextState);
+            }
+
+            // Do not write before the persisted state has been loaded: it would be overwritten
+            if (isLoaded) {
+                scheduleWrite(nextState);
+            }
+
+            return nextState;
+        };
+    };
+}
+
+function parsePersistedItem(
+    persisted: string | null,
+    options: PersistStateOptions,
+    serializer: SerializerRegistry | undefined
+): AppState {
+    if (!persisted) {
+        return {};
+    }
+
+    try {
+        const item: PersistedItem = serializer
+            ? serializer.parse(persisted)
+            : JSON.parse(persisted);
+        return migrate(item, options);
+    } catch (err) {
+        miniRxConsoleError('Parsing or migrating the persisted state failed.', err);
+        return {};
+    }
+}
+
+function migrate(item: PersistedItem, options: PersistStateOptions): AppState {
+    if (item.version > options.version) {
+        // The persisted state is newer than the app knows about: do not use it
+        return {};
+    }
+
+    return Object.keys(options.migrations)
+        .map(Number)
+        .filter((version) => version > item.version && version <= options.version)
+        .sort((a, b) => a - b)
+        .reduce((state, version) => options.migrations[version](state), item.state);
+}
+
+function hasKey(object: AppState, key: string): boolean {
+    return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+function isPlainObject(v: unknown): v is object {
+    return !!v && typeof v === 'object' && !Array.isArray(v);
+}
+
+function omitKeys(object: AppState, keysToOmit: string[]): AppState {
+    return Object.keys(object)
+        .filter((key) => !keysToOmit.includes(key))
+        .reduce<AppState>((result, key) => {
+            result[key] = object[key];
+            return result;
+        }, {});
+}
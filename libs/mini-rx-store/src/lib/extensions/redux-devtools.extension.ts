@@ -1,26 +1,78 @@
-import { tap, withLatestFrom } from 'rxjs/operators';
-import { Action, AppState, ExtensionId, StoreExtension } from '../models';
-import { actions$, appState } from '../store-core';
-import { beautifyActionForLogging, miniRxError } from '../utils';
+import {
+    Action,
+    AppState,
+    ExtensionHost,
+    ExtensionId,
+    HasComponentStoreSupport,
+    MetaReducer,
+    Reducer,
+    StoreExtension,
+} from '../models';
+import { defaultStoreCore } from '../store-core';
+import { beautifyActionForLogging, miniRxConsoleError, miniRxError } from '../utils';
+import { SerializerRegistry } from '../serializer';
 
 const defaultOptions: Partial<ReduxDevtoolsOptions> = {
     name: 'MiniRx - Redux DevTools',
     traceLimit: 25,
 };
 
+// The Redux DevTools keep their own history of actions and states (the "lifted state")
+// The default `maxAge` of the Redux DevTools is 50 actions
+const defaultMaxAge = 50;
+
 export interface ReduxDevtoolsOptions {
     name: string;
     maxAge: number;
     latency: number;
     trace: boolean;
     traceLimit: number;
+    // Serializes the state and actions (default: the `serializer` of the store config)
+    serializer: SerializerRegistry;
+}
+
+/** @internal
+ * The connection object returned by `window.__REDUX_DEVTOOLS_EXTENSION__.connect`
+ */
+export interface ReduxDevtoolsConnection {
+    // Returns a function to remove the listener
+    subscribe(listener: (message: DevToolsMessage) => void): (() => void) | void;
+    // Removes all listeners
+    unsubscribe?(): void;
+    send(action: Action | null, state: any): void;
+}
+
+/** @internal */
+export interface DevToolsMessage {
+    type: string;
+    payload?: any;
+    state?: any;
+}
+
+interface LiftedAction {
+    type: 'PERFORM_ACTION';
+    action: Action;
+    timestamp: number;
+}
+
+interface LiftedState {
+    monitorState: unknown;
+    nextActionId: number;
+    actionsById: Record<number, LiftedAction>;
+    stagedActionIds: number[];
+    skippedActionIds: number[];
+    committedState: AppState | undefined;
+    currentStateIndex: number;
+    computedStates: { state: AppState | undefined }[];
+    isLocked: boolean;
+    isPaused: boolean;
 }
 
-export class ReduxDevtoolsExtension extends StoreExtension {
+export class ReduxDevtoolsExtension extends StoreExtension implements HasComponentStoreSupport {
     id = ExtensionId.REDUX_DEVTOOLS;
+    hasCsSupport = true as const;
 
     private readonly devtoolsExtension: any;
-    private devtoolsConnection: any;
     private readonly _optionsForNgExtension: Partial<ReduxDevtoolsOptions>;
 
     get optionsForNgExtension(): Partial<ReduxDevtoolsOptions> {
@@ -30,8 +82,10 @@ export class ReduxDevtoolsExtension extends StoreExtension {
     constructor(private readonly options: Partial<ReduxDevtoolsOptions>) {
         super();
 
-        if (!window) {
-            miniRxError('The Redux DevTools are only supported in browser environments.');
+        if (typeof window === 'undefined') {
+            miniRxError(
+                'The Redux DevTools are only supported in browser environments. Use the RemoteDevtoolsExtension instead.'
+            );
         }
 
         this._optionsForNgExtension = options;
@@ -44,41 +98,370 @@ export class ReduxDevtoolsExtension extends StoreExtension {
         };
     }
 
-    init(): void {
-        if (this.devtoolsExtension) {
-            this.devtoolsConnection = this.devtoolsExtension.connect(this.options);
+    // Every store (Redux Store or ComponentStore) gets its own DevTools instance
+    init(host: ExtensionHost = defaultStoreCore): MetaReducer<any> {
+        if (!this.devtoolsExtension) {
+            return (reducer) => reducer;
+        }
+
+        const { serializer = host.serializer, ...options } = this.options;
+        if (host.name) {
+            options.name = `${options.name} (${host.name})`;
+        }
 
-            actions$
-                .pipe(
-                    withLatestFrom(appState.select()),
-                    tap(([action, state]) => {
-                        const actionForDevTools: Action = beautifyActionForLogging(action, state);
-                        this.devtoolsConnection.send(actionForDevTools, state);
-                    })
-                )
-                .subscribe();
+        const devtoolsInstance = new DevtoolsInstance(
+            this.devtoolsExtension.connect(
+                serializer
+                    ? {
+                          ...options,
+                          serialize: { replacer: serializer.replacer, reviver: serializer.reviver },
+                      }
+                    : options
+            ),
+            host,
+            options.maxAge ?? defaultMaxAge,
+            (state) => this.updateState(state, host),
+            serializer
+        );
+        host.onDestroy?.(() => devtoolsInstance.disconnect());
+        return devtoolsInstance.metaReducer;
+    }
+
+    protected updateState(state: AppState, host: ExtensionHost<any>) {
+        host.appState.set(state);
+    }
+}
+
+/** @internal
+ * Keeps the lifted state of one DevTools instance in sync with the state of one store
+ * Also used by the RemoteDevtoolsExtension
+ */
+export class DevtoolsInstance {
+    // The actions which have been dispatched to the store (with setState callbacks)
+    // The lifted state contains the actions beautified for logging
+    private actionsById: Record<number, Action> = {};
+    private liftedState: LiftedState | undefined;
+    private initialState: AppState | undefined;
+    private rootReducer: Reducer<any> | undefined;
+    private removeListener: (() => void) | void;
+    private isDisconnected = false;
+
+    readonly metaReducer: MetaReducer<any> = (rootReducer: Reducer<any>): Reducer<any> => {
+        // Keep the reducer to recompute the states when actions are toggled in the DevTools
+        // (if the host does not provide a plain reducer)
+        this.rootReducer = rootReducer;
+
+        return (state, action) => {
+            // Locked: the DevTools ignore all state changes of the app
+            if (this.liftedState?.isLocked) {
+                return state;
+            }
+
+            const newState = rootReducer(state, action);
+            if (!this.isDisconnected) {
+                this.onAction(action, newState);
+            }
+            return newState;
+        };
+    };
 
-            this.devtoolsConnection.subscribe(this.onDevToolsMessage.bind(this));
+    constructor(
+        private devtoolsConnection: ReduxDevtoolsConnection,
+        private host: ExtensionHost<any>,
+        private maxAge: number,
+        private updateState: (state: AppState) => void,
+        private serializer?: SerializerRegistry
+    ) {
+        const currentState = host.appState.get();
+        if (currentState) {
+            this.initialState = currentState;
+            this.liftedState = createLiftedState({ type: '@@INIT' }, currentState);
         }
+
+        this.removeListener = devtoolsConnection.subscribe(this.onDevToolsMessage.bind(this));
+    }
+
+    // Stops listening to the DevTools and sending actions (e.g. the ComponentStore has been destroyed)
+    disconnect() {
+        this.isDisconnected = true;
+        this.removeListener?.();
+        this.devtoolsConnection.unsubscribe?.();
+        this.actionsById = {};
+        this.liftedState = undefined;
+    }
+
+    private onAction(action: Action, state: AppState) {
+        const actionForDevTools: Action = beautifyActionForLogging(action, state);
+
+        if (!this.liftedState) {
+            // The first action (e.g. the init action) creates the initial state
+            this.initialState = state;
+            this.liftedState = createLiftedState(actionForDevTools, state);
+            this.actionsById[0] = action;
+            this.devtoolsConnection.send(actionForDevTools, state);
+            return;
+        }
+
+        if (this.liftedState.isPaused) {
+            // Paused: do not record actions, but keep the latest state
+            const computedStates = [...this.liftedState.computedStates];
+            computedStates[computedStates.length - 1] = { state };
+            this.liftedState = { ...this.liftedState, computedStates };
+            return;
+        }
+
+        const actionId = this.liftedState.nextActionId;
+        this.actionsById[actionId] = action;
+        this.liftedState = trimLiftedState(
+            {
+                ...this.liftedState,
+                nextActionId: actionId + 1,
+                actionsById: {
+                    ...this.liftedState.actionsById,
+                    [actionId]: liftAction(actionForDevTools),
+                },
+                stagedActionIds: [...this.liftedState.stagedActionIds, actionId],
+                computedStates: [...this.liftedState.computedStates, { state }],
+                currentStateIndex: this.liftedState.stagedActionIds.length,
+            },
+            this.maxAge
+        );
+        this.removeCommittedActions();
+
+        this.devtoolsConnection.send(actionForDevTools, state);
+    }
+
+    private removeCommittedActions() {
+        Object.keys(this.actionsById)
+            .filter((id) => !this.liftedState!.stagedActionIds.includes(+id))
+            .forEach((id) => delete this.actionsById[+id]);
+    }
+
+    private onDevToolsMessage(message: DevToolsMessage) {
+        if (message.type === DevToolActions.ACTION) {
+            this.dispatchFromDevTools(message.payload);
+        }
+
+        if (message.type !== DevToolActions.DISPATCH) {
+            return;
+        }
+
+        switch (message.payload.type) {
+            case DevToolActions.JUMP_TO_STATE:
+            case DevToolActions.JUMP_TO_ACTION:
+                this.jump(message.payload.actionId, this.parseState(message.state));
+                break;
+            case DevToolActions.COMMIT:
+                this.commit();
+                break;
+            case DevToolActions.ROLLBACK:
+                this.resetHistory(this.liftedState?.committedState);
+                break;
+            case DevToolActions.RESET:
+                this.resetHistory(this.initialState, true);
+                break;
+            case DevToolActions.IMPORT_STATE:
+                this.importLiftedState(message.payload.nextLiftedState);
+                break;
+            case DevToolActions.TOGGLE_ACTION:
+                this.toggleAction(message.payload.id);
+                break;
+            case DevToolActions.PAUSE_RECORDING:
+                this.updateLiftedState({ isPaused: message.payload.status });
+                break;
+            case DevToolActions.LOCK_CHANGES:
+                this.updateLiftedState({ isLocked: message.payload.status });
+                break;
+        }
+    }
+
+    // The DevTools send the state as JSON string
+    private parseState(state: string): AppState {
+        return this.serializer ? this.serializer.parse(state) : JSON.parse(state);
     }
 
-    private onDevToolsMessage(message: { type: string; payload: any; state: any }) {
-        if (message.type === DevToolActions.DISPATCH) {
-            switch (message.payload.type) {
-                case DevToolActions.JUMP_TO_STATE:
-                case DevToolActions.JUMP_TO_ACTION:
-                    this.updateState(JSON.parse(message.state));
+    private jump(actionId: number | undefined, state: AppState) {
+        if (this.liftedState && typeof actionId === 'number') {
+            const index = this.liftedState.stagedActionIds.indexOf(actionId);
+            if (index !== -1) {
+                this.liftedState = { ...this.liftedState, currentStateIndex: index };
             }
         }
+        this.updateState(state);
     }
 
-    protected updateState(state: AppState) {
-        appState.set(state);
+    // Remove all actions from the history: the current state becomes the committed state
+    private commit() {
+        if (!this.liftedState) {
+            return;
+        }
+
+        const state = this.liftedState.computedStates[this.liftedState.currentStateIndex].state;
+        this.liftedState = {
+            ...createLiftedState({ type: '@@INIT' }, state),
+            isLocked: this.liftedState.isLocked,
+            isPaused: this.liftedState.isPaused,
+        };
+        this.actionsById = {};
+        this.sendLiftedState();
+    }
+
+    // Remove all actions from the history and go back to the committed (or initial) state
+    private resetHistory(state: AppState | undefined, resetFlags = false) {
+        if (!this.liftedState || !state) {
+            return;
+        }
+
+        this.liftedState = {
+            ...createLiftedState({ type: '@@INIT' }, state),
+            isLocked: resetFlags ? false : this.liftedState.isLocked,
+            isPaused: resetFlags ? false : this.liftedState.isPaused,
+        };
+        this.actionsById = {};
+        this.updateState(state);
+        this.sendLiftedState();
+    }
+
+    private importLiftedState(nextLiftedState: LiftedState) {
+        this.liftedState = nextLiftedState;
+        // Imported actions are plain objects: e.g. setState actions can not be recomputed
+        this.actionsById = Object.keys(nextLiftedState.actionsById).reduce(
+            (actionsById, id) => ({
+                ...actionsById,
+                [id]: nextLiftedState.actionsById[+id].action,
+            }),
+            {}
+        );
+
+        const state = nextLiftedState.computedStates[nextLiftedState.currentStateIndex]?.state;
+        if (state) {
+            this.updateState(state);
+        }
+        this.sendLiftedState();
+    }
+
+    // Skip (or re-enable) an action and recompute the states of all following actions
+    private toggleAction(actionId: number) {
+        if (!this.liftedState || !this.rootReducer) {
+            return;
+        }
+
+        const { skippedActionIds, stagedActionIds, computedStates } = this.liftedState;
+        const startIndex = stagedActionIds.indexOf(actionId);
+        if (startIndex < 1) {
+            // The first action (initial state) can not be toggled
+            return;
+        }
+
+        const newSkippedActionIds = skippedActionIds.includes(actionId)
+            ? skippedActionIds.filter((id) => id !== actionId)
+            : [...skippedActionIds, actionId];
+
+        const newComputedStates = computedStates.slice(0, startIndex);
+        let state = newComputedStates[startIndex - 1].state;
+
+        // The plain reducer: e.g. the UndoExtension or LoggerExtension do not see the replayed actions
+        const reducer = this.host.getPlainReducer?.() ?? this.rootReducer;
+        stagedActionIds.slice(startIndex).forEach((id) => {
+            if (!newSkippedActionIds.includes(id)) {
+                state = reducer(state, this.actionsById[id]);
+            }
+            newComputedStates.push({ state });
+        });
+
+        this.liftedState = {
+            ...this.liftedState,
+            skippedActionIds: newSkippedActionIds,
+            computedStates: newComputedStates,
+        };
+
+        this.updateState(newComputedStates[this.liftedState.currentStateIndex].state!);
+        this.sendLiftedState();
+    }
+
+    private dispatchFromDevTools(payload: string | Action) {
+        if (this.liftedState?.isLocked) {
+            return;
+        }
+
+        try {
+            const action: Action = typeof payload === 'string' ? JSON.parse(payload) : payload;
+            this.host.dispatch(action);
+        } catch (err) {
+            miniRxConsoleError('The action from the Redux DevTools is not valid JSON.', err);
+        }
+    }
+
+    private updateLiftedState(changes: Partial<LiftedState>) {
+        if (!this.liftedState) {
+            return;
+        }
+
+        this.liftedState = { ...this.liftedState, ...changes };
+        this.sendLiftedState();
     }
+
+    private sendLiftedState() {
+        // The Redux DevTools replace their lifted state if the action is `null`
+        this.devtoolsConnection.send(null, this.liftedState);
+    }
+}
+
+function liftAction(action: Action): LiftedAction {
+    return {
+        type: 'PERFORM_ACTION',
+        action,
+        timestamp: Date.now(),
+    };
+}
+
+function createLiftedState(action: Action, state: AppState | undefined): LiftedState {
+    return {
+        monitorState: undefined,
+        nextActionId: 1,
+        actionsById: { 0: liftAction(action) },
+        stagedActionIds: [0],
+        skippedActionIds: [],
+        committedState: state,
+        currentStateIndex: 0,
+        computedStates: [{ state }],
+        isLocked: false,
+        isPaused: false,
+    };
+}
+
+// Commit the oldest actions if there are more actions than `maxAge`
+function trimLiftedState(liftedState: LiftedState, maxAge: number): LiftedState {
+    const excess = liftedState.stagedActionIds.length - maxAge;
+    if (excess <= 0) {
+        return liftedState;
+    }
+
+    const removedIds = liftedState.stagedActionIds.slice(1, excess + 1);
+    const actionsById = { ...liftedState.actionsById };
+    removedIds.forEach((id) => delete actionsById[id]);
+
+    return {
+        ...liftedState,
+        actionsById,
+        stagedActionIds: [0, ...liftedState.stagedActionIds.slice(excess + 1)],
+        skippedActionIds: liftedState.skippedActionIds.filter((id) => !removedIds.includes(id)),
+        committedState: liftedState.computedStates[excess].state,
+        computedStates: liftedState.computedStates.slice(excess),
+        currentStateIndex: Math.max(liftedState.currentStateIndex - excess, 0),
+    };
 }
 
 const enum DevToolActions {
     DISPATCH = 'DISPATCH',
+    ACTION = 'ACTION',
     JUMP_TO_STATE = 'JUMP_TO_STATE',
     JUMP_TO_ACTION = 'JUMP_TO_ACTION',
+    COMMIT = 'COMMIT',
+    ROLLBACK = 'ROLLBACK',
+    RESET = 'RESET',
+    IMPORT_STATE = 'IMPORT_STATE',
+    TOGGLE_ACTION = 'TOGGLE_ACTION',
+    PAUSE_RECORDING = 'PAUSE_RECORDING',
+    LOCK_CHANGES = 'LOCK_CHANGES',
 }
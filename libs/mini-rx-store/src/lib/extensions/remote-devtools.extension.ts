@@ -0,0 +1,254 @@
+import {
+    Action,
+    AppState,
+    ExtensionHost,
+    ExtensionId,
+    HasComponentStoreSupport,
+    MetaReducer,
+    StoreExtension,
+} from '../models';
+import { defaultStoreCore } from '../store-core';
+import { miniRxConsoleError, miniRxError } from '../utils';
+import { SerializerRegistry } from '../serializer';
+import { DevtoolsInstance, ReduxDevtoolsConnection } from './redux-devtools.extension';
+
+// Messages from the store to the monitor
+export type RemoteDevtoolsMessage =
+    // A store (Redux Store or ComponentStore) connected
+    | { type: 'START'; instanceId: string; state: AppState | undefined }
+    | { type: 'ACTION'; instanceId: string; action: Action; state: AppState }
+    // The lifted state (history of actions and states) changed: e.g. after COMMIT or TOGGLE_ACTION
+    | { type: 'STATE'; instanceId: string; liftedState: unknown };
+
+// Messages from the monitor to the store: the same messages as from the Redux DevTools
+// Without `instanceId` the message is handled by all stores
+export interface RemoteDevtoolsCommand {
+    type: string;
+    payload?: any;
+    state?: any;
+    instanceId?: string;
+}
+
+// Duplex transport for the JSON messages: e.g. `createWebSocketTransport` or `createInMemoryDevtoolsServer`
+export interface RemoteDevtoolsTransport {
+    send(data: string): void;
+    // Returns a function to remove the listener
+    onMessage(listener: (data: string) => void): () => void;
+    close(): void;
+}
+
+export interface RemoteDevtoolsOptions {
+    // Instance name in the monitor (ComponentStores add their name)
+    name: string;
+    maxAge: number;
+    transport: RemoteDevtoolsTransport;
+    // Serializes the messages (default: the `serializer` of the store config)
+    serializer?: SerializerRegistry;
+}
+
+const defaultOptions: Pick<RemoteDevtoolsOptions, 'name' | 'maxAge'> = {
+    name: 'MiniRx - Remote DevTools',
+    maxAge: 50,
+};
+
+// Streams actions and states to a standalone monitor (e.g. in Node or Jest, where the Redux DevTools browser extension is not available)
+export class RemoteDevtoolsExtension extends StoreExtension implements HasComponentStoreSupport {
+    id = ExtensionId.REMOTE_DEVTOOLS;
+    hasCsSupport = true as const;
+
+    private readonly options: RemoteDevtoolsOptions;
+    private removeListeners: (() => void)[] = [];
+
+    constructor(
+        options: Partial<RemoteDevtoolsOptions> & Pick<RemoteDevtoolsOptions, 'transport'>
+    ) {
+        super();
+
+        this.options = {
+            ...defaultOptions,
+            ...options,
+        };
+    }
+
+    // Every store (Redux Store or ComponentStore) gets its own monitor instance
+    init(host: ExtensionHost = defaultStoreCore): MetaReducer<any> {
+        const instanceId = host.name ? `${this.options.name} (${host.name})` : this.options.name;
+        const serializer = this.options.serializer ?? host.serializer;
+
+        const devtoolsInstance = new DevtoolsInstance(
+            this.createConnection(instanceId, host, serializer),
+            host,
+            this.options.maxAge,
+            (state) => host.appState.set(state),
+            serializer
+        );
+        host.onDestroy?.(() => devtoolsInstance.disconnect());
+        return devtoolsInstance.metaReducer;
+    }
+
+    // Stops listening to the monitor and closes the transport
+    close(): void {
+        this.removeListeners.forEach((removeListener) => removeListener());
+        this.removeListeners = [];
+        this.options.transport.close();
+    }
+
+    private createConnection(
+        instanceId: string,
+        host: ExtensionHost<any>,
+        serializer: SerializerRegistry | undefined
+    ): ReduxDevtoolsConnection {
+        const send = (message: RemoteDevtoolsMessage) => this.send(message, serializer);
+
+        send({ type: 'START', instanceId, state: host.appState.get() });
+
+        return {
+            subscribe: (listener) => {
+                const removeListener = this.options.transport.onMessage((data) => {
+                    const command = parseCommand(data);
+                    if (command && (!command.instanceId || command.instanceId === instanceId)) {
+                        listener(command);
+                    }
+                });
+                this.removeListeners.push(removeListener);
+                return () => {
+                    removeListener();
+                    this.removeListeners = this.removeListeners.filter((v) => v !== removeListener);
+                };
+            },
+            send: (action, state) =>
+                // Like the Redux DevTools: the action is `null` if the lifted state is sent
+                send(
+                    action
+                        ? { type: 'ACTION', instanceId, action, state }
+                        : { type: 'STATE', instanceId, liftedState: state }
+                ),
+        };
+    }
+
+    private send(message: RemoteDevtoolsMessage, serializer?: SerializerRegistry): void {
+        try {
+            this.options.transport.send(stringify(message, serializer));
+        } catch (err) {
+            miniRxConsoleError('RemoteDevtoolsExtension: Sending a message failed.', err);
+        }
+    }
+}
+
+function stringify(message: RemoteDevtoolsMessage, serializer?: SerializerRegistry): string {
+    return JSON.stringify(message, function (key, v) {
+        const value = serializer ? serializer.replacer.call(this, key, v) : v;
+        // e.g. setState callbacks
+        return typeof value === 'function' ? '[Function]' : value;
+    });
+}
+
+function parseCommand(data: string): RemoteDevtoolsCommand | undefined {
+    try {
+        return JSON.parse(data);
+    } catch (err) {
+        miniRxConsoleError(
+            'RemoteDevtoolsExtension: The message from the monitor is not valid JSON.',
+            err
+        );
+        return undefined;
+    }
+}
+
+// The WebSocket API which is implemented by browsers, Node (>= 22) and the `ws` package
+export interface WebSocketLike {
+    readonly readyState: number;
+    send(data: string): void;
+    close(): void;
+    addEventListener(type: 'open' | 'message', listener: (event: any) => void): void;
+    removeEventListener(type: 'open' | 'message', listener: (event: any) => void): void;
+}
+
+type WebSocketCtor = new (url: string) => WebSocketLike;
+
+const WEB_SOCKET_OPEN = 1;
+
+export function createWebSocketTransport(
+    url: string,
+    // Default: the global WebSocket (e.g. Node < 22 has no global WebSocket)
+    webSocketCtor: WebSocketCtor | undefined = (
+        globalThis as typeof globalThis & { WebSocket?: WebSocketCtor }
+    ).WebSocket
+): RemoteDevtoolsTransport {
+    if (!webSocketCtor) {
+        miniRxError(
+            'RemoteDevtoolsExtension: No WebSocket available. Please provide a WebSocket constructor (e.g. of the `ws` package).'
+        );
+    }
+
+    const socket = new webSocketCtor(url);
+    // Messages are queued until the connection is open (e.g. the init action)
+    let queue: string[] = [];
+
+    const onOpen = () => {
+        queue.forEach((data) => socket.send(data));
+        queue = [];
+    };
+    socket.addEventListener('open', onOpen);
+
+    return {
+        send: (data) => {
+            if (socket.readyState === WEB_SOCKET_OPEN) {
+                socket.send(data);
+            } else {
+                queue.push(data);
+            }
+        },
+        onMessage: (listener) => {
+            const handler = (event: { data: unknown }) => listener(String(event.data));
+            socket.addEventListener('message', handler);
+            return () => socket.removeEventListener('message', handler);
+        },
+        close: () => {
+            socket.removeEventListener('open', onOpen);
+            socket.close();
+        },
+    };
+}
+
+// In-process stand-in for a monitor server: e.g. to inspect the messages in unit tests
+export function createInMemoryDevtoolsServer(): {
+    // The messages received from all transports
+    messages: RemoteDevtoolsMessage[];
+    createTransport(): RemoteDevtoolsTransport;
+    // Sends a command to all transports
+    send(command: RemoteDevtoolsCommand): void;
+} {
+    const messages: RemoteDevtoolsMessage[] = [];
+    const listeners = new Set<(data: string) => void>();
+
+    return {
+        messages,
+        createTransport: () => {
+            const ownListeners = new Set<(data: string) => void>();
+            return {
+                send: (data) => {
+                    messages.push(JSON.parse(data));
+                },
+                onMessage: (listener) => {
+                    // Every listener gets its own function reference
+                    const wrappedListener = (data: string) => listener(data);
+                    ownListeners.add(wrappedListener);
+                    listeners.add(wrappedListener);
+                    return () => {
+                        ownListeners.delete(wrappedListener);
+                        listeners.delete(wrappedListener);
+                    };
+                },
+                close: () => {
+                    ownListeners.forEach((listener) => listeners.delete(listener));
+                    ownListeners.clear();
+                },
+            };
+        },
+        send: (command) => {
+            const data = JSON.stringify(command);
+            listeners.forEach((listener) => listener(data));
+        },
+    };
+}
@@ -0,0 +1,215 @@
+import {
+    Action,
+    ExtensionId,
+    HasComponentStoreSupport,
+    MetaReducer,
+    Reducer,
+    StoreExtension,
+} from '../models';
+import { isPlainObjectOrArray, miniRxConsoleWarn, miniRxError } from '../utils';
+import {
+    isComponentStoreSetStateAction,
+    isFeatureStoreSetStateAction,
+    MiniRxActionType,
+    unpackBatchAction,
+} from '../actions';
+
+export interface RuntimeChecks {
+    // The state contains only plain objects, arrays and primitives (e.g. no `Date`, `Map`, class instances or functions)
+    strictStateSerializability: boolean;
+    // The actions contain only plain objects, arrays and primitives
+    strictActionSerializability: boolean;
+    // Reducers do not mutate the actions
+    strictActionImmutability: boolean;
+    // Warns if `setState` is called without a name (the action type is less descriptive in the logs and the DevTools)
+    warnOnMissingSetStateName: boolean;
+}
+
+const defaultRuntimeChecks: RuntimeChecks = {
+    strictStateSerializability: true,
+    strictActionSerializability: true,
+    strictActionImmutability: true,
+    warnOnMissingSetStateName: true,
+};
+
+// Recommended for development only: the checks traverse the state and the actions
+export class RuntimeChecksExtension extends StoreExtension implements HasComponentStoreSupport {
+    id = ExtensionId.RUNTIME_CHECKS;
+    hasCsSupport = true as const;
+
+    private readonly checks: RuntimeChecks;
+
+    constructor(checks: Partial<RuntimeChecks> = {}) {
+        super();
+        this.checks = { ...defaultRuntimeChecks, ...checks };
+    }
+
+    init(): MetaReducer<any> {
+        return createRuntimeChecksMetaReducer(this.checks);
+    }
+}
+
+function createRuntimeChecksMetaReducer(checks: RuntimeChecks): MetaReducer<any> {
+    return (reducer: Reducer<any>): Reducer<any> => {
+        return (state, action) => {
+            const actions = unpackBatchAction(action);
+
+            actions.forEach((singleAction) => {
+                if (checks.strictActionSerializability) {
+                    checkActionSerializability(singleAction);
+                }
+                if (checks.warnOnMissingSetStateName) {
+                    checkSetStateName(singleAction);
+                }
+            });
+
+            const actionSnapshots = checks.strictActionImmutability
+                ? actions.map((singleAction) => cloneDeep(singleAction))
+                : [];
+
+            const nextState = reducer(state, action);
+
+            actionSnapshots.forEach((snapshot, index) => {
+                const path = findChangedPath(snapshot, actions[index]);
+                if (path) {
+                    miniRxError(
+                        `Detected a mutation of the action "${actions[index].type}" at "${path}". Reducers must not mutate actions.`
+                    );
+                }
+            });
+
+            if (checks.strictStateSerializability && nextState !== state) {
+                const path = findNonSerializablePath(nextState, state);
+                if (path) {
+                    miniRxError(
+                        `Detected an unserializable state value at "${path}" (action type: "${action.type}").`
+                    );
+                }
+            }
+
+            return nextState;
+        };
+    };
+}
+
+function checkActionSerializability(action: Action): void {
+    // Actions can contain setState actions: e.g. the payload of `undo` or a batch action
+    const path = findNonSerializablePath(action, undefined, [], isSetStateCallback);
+    if (path) {
+        miniRxError(
+            `Detected an unserializable action value at "${path}" (action type: "${action.type}").`
+        );
+    }
+}
+
+// A setState callback is a function by design: only state objects are checked
+function isSetStateCallback(parent: Record<string, unknown>, key: string): boolean {
+    return (
+        key === 'stateOrCallback' &&
+        typeof parent[key] === 'function' &&
+        (isFeatureStoreSetStateAction(parent as Action) ||
+            isComponentStoreSetStateAction(parent as Action))
+    );
+}
+
+function checkSetStateName(action: Action): void {
+    if (
+        (isFeatureStoreSetStateAction(action) || isComponentStoreSetStateAction(action)) &&
+        action.type.endsWith('/' + MiniRxActionType.SET_STATE)
+    ) {
+        miniRxConsoleWarn(
+            `setState was called without a name (action type: "${action.type}"). ` +
+                'Pass a name to `setState` to make the action type more descriptive.'
+        );
+    }
+}
+
+function isSerializable(v: unknown): boolean {
+    return (
+        v === undefined ||
+        v === null ||
+        typeof v === 'string' ||
+        typeof v === 'number' ||
+        typeof v === 'boolean' ||
+        isPlainObjectOrArray(v)
+    );
+}
+
+// Returns the path of the first unserializable value (e.g. "todos.items.0.dueDate")
+// Skips the branches which did not change compared to the previous value (and the ignored properties)
+function findNonSerializablePath(
+    value: unknown,
+    previousValue?: unknown,
+    path: string[] = [],
+    isIgnored?: (parent: Record<string, unknown>, key: string) => boolean
+): string | undefined {
+    if (value === previousValue) {
+        return undefined;
+    }
+    if (!isSerializable(value)) {
+        return path.join('.') || '(root)';
+    }
+    if (isPlainObjectOrArray(value)) {
+        const previous = isPlainObjectOrArray(previousValue)
+            ? (previousValue as Record<string, unknown>)
+            : undefined;
+
+        const record = value as Record<string, unknown>;
+
+        for (const key of Object.keys(record)) {
+            if (isIgnored?.(record, key)) {
+                continue;
+            }
+            const nonSerializablePath = findNonSerializablePath(
+                record[key],
+                previous?.[key],
+                [...path, key],
+                isIgnored
+            );
+            if (nonSerializablePath) {
+                return nonSerializablePath;
+            }
+        }
+    }
+    return undefined;
+}
+
+// Copies plain objects and arrays, other values are kept by reference
+function cloneDeep<T>(value: T): T {
+    if (Array.isArray(value)) {
+        return value.map((item) => cloneDeep(item)) as unknown as T;
+    }
+    if (isPlainObjectOrArray(value)) {
+        return Object.keys(value).reduce((copy, key) => {
+            copy[key] = cloneDeep((value as Record<string, unknown>)[key]);
+            return copy;
+        }, {} as Record<string, unknown>) as T;
+    }
+    return value;
+}
+
+// Returns the path of the first difference between the snapshot and the current value
+function findChangedPath(
+    snapshot: unknown,
+    current: unknown,
+    path: string[] = []
+): string | undefined {
+    if (!isPlainObjectOrArray(snapshot) || !isPlainObjectOrArray(current)) {
+        return Object.is(snapshot, current) ? undefined : path.join('.') || '(root)';
+    }
+
+    const snapshotRecord = snapshot as Record<string, unknown>;
+    const currentRecord = current as Record<string, unknown>;
+    const keys = new Set([...Object.keys(snapshotRecord), ...Object.keys(currentRecord)]);
+
+    for (const key of Array.from(keys)) {
+        const changedPath = findChangedPath(snapshotRecord[key], currentRecord[key], [
+            ...path,
+            key,
+        ]);
+        if (changedPath) {
+            return changedPath;
+        }
+    }
+    return undefined;
+}
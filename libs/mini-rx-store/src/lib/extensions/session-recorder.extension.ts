@@ -0,0 +1,145 @@
+import {
+    Action,
+    AppState,
+    ExtensionHost,
+    ExtensionId,
+    MetaReducer,
+    Reducer,
+    StoreExtension,
+} from '../models';
+import { defaultStoreCore } from '../store-core';
+import { isBatchAction, isFeatureStoreSetStateAction } from '../actions';
+import { createStateSnapshot } from '../serializer';
+
+export const RECORDED_SESSION_VERSION = 1;
+
+export interface RecordedEntry {
+    // setState callbacks are resolved to the concrete partial state
+    action: Action;
+    // The state after the action
+    state: AppState;
+    timestamp: number;
+}
+
+export interface RecordedSession {
+    version: number;
+    // The state before the first entry
+    initialState: AppState | undefined;
+    entries: RecordedEntry[];
+}
+
+export interface SessionRecorderOptions {
+    // The oldest entries are removed: the state of the removed entry becomes the initial state of the session
+    maxEntries: number;
+}
+
+// Records the actions and states of a store: the exported session can be replayed with the `SessionReplayer`
+export class SessionRecorderExtension extends StoreExtension {
+    id = ExtensionId.SESSION_RECORDER;
+
+    private readonly options: SessionRecorderOptions;
+    private host: ExtensionHost | undefined;
+    private initialState: AppState | undefined;
+    private hasInitialState = false;
+    private entries: RecordedEntry[] = [];
+
+    get session(): RecordedSession {
+        return {
+            version: RECORDED_SESSION_VERSION,
+            initialState: this.initialState,
+            entries: [...this.entries],
+        };
+    }
+
+    constructor(options: Partial<SessionRecorderOptions> = {}) {
+        super();
+
+        this.options = {
+            maxEntries: 1000,
+            ...options,
+        };
+    }
+
+    init(host: ExtensionHost = defaultStoreCore): MetaReducer<any> {
+        this.host = host;
+
+        return (reducer: Reducer<any>): Reducer<any> => {
+            return (state: AppState | undefined, action: Action) => {
+                const nextState: AppState = reducer(state, action);
+                this.record(action, state, nextState);
+                return nextState;
+            };
+        };
+    }
+
+    // Returns the session as state snapshot (e.g. to attach it to a bug report)
+    // Dates, Maps, Sets (and the types registered in the serializer of the store) are preserved
+    exportSession(): string {
+        return createStateSnapshot(this.session, this.host?.serializer);
+    }
+
+    // Starts a new session: the current state becomes the initial state
+    clear(): void {
+        this.entries = [];
+        this.initialState = this.host?.appState.get();
+        this.hasInitialState = true;
+    }
+
+    private record(action: Action, state: AppState | undefined, nextState: AppState) {
+        if (!this.hasInitialState) {
+            this.initialState = state;
+            this.hasInitialState = true;
+        }
+
+        this.entries.push({
+            action: resolveSetStateActions(action, state, nextState),
+            state: nextState,
+            timestamp: Date.now(),
+        });
+
+        if (this.entries.length > this.options.maxEntries) {
+            this.initialState = this.entries.shift()!.state; // Non-null assertion: there are more entries than `maxEntries`
+        }
+    }
+}
+
+// setState callbacks can not be exported: they are replaced by the concrete partial state
+function resolveSetStateActions(
+    action: Action,
+    state: AppState | undefined,
+    nextState: AppState,
+    isBatched = false
+): Action {
+    if (isBatchAction(action)) {
+        return {
+            ...action,
+            payload: action.payload.map((batchedAction) =>
+                resolveSetStateActions(batchedAction, state, nextState, true)
+            ),
+        };
+    }
+
+    if (isFeatureStoreSetStateAction(action) && typeof action.stateOrCallback === 'function') {
+        const featureState = state?.[action.featureKey];
+        const nextFeatureState = nextState[action.featureKey];
+        return {
+            ...action,
+            // The intermediate states of a batch are unknown: the batched callbacks are resolved to the feature state after the batch
+            // (the next setState actions of the batch do not change that state anymore)
+            stateOrCallback: isBatched
+                ? nextFeatureState
+                : getChangedProperties(featureState, nextFeatureState),
+        };
+    }
+
+    return action;
+}
+
+function getChangedProperties(state: any, nextState: any): Record<string, unknown> {
+    return Object.keys(nextState ?? {})
+        .filter((key) => state?.[key] !== nextState[key])
+        .reduce<Record<string, unknown>>((changes, key) => {
+            changes[key] = nextState[key];
+            return changes;
+        }, {});
+}
@@ -0,0 +1,403 @@
+import { BehaviorSubject, EMPTY, Observable } from 'rxjs';
+import { distinctUntilChanged, switchMap } from 'rxjs/operators';
+import {
+    Action,
+    AppState,
+    ExtensionHost,
+    ExtensionId,
+    MetaReducer,
+    Reducer,
+    StoreExtension,
+} from '../models';
+import { miniRxConsoleError, miniRxError } from '../utils';
+import { miniRxNameSpace } from '../constants';
+
+interface TabInfo {
+    id: string;
+    // The oldest tab is the leader
+    startedAt: number;
+}
+
+export type TabSyncMessage =
+    // A new tab asks the other tabs for their state
+    | { type: 'hello'; tab: TabInfo }
+    // Answer to `hello`: the initial state for the new tab
+    | { type: 'welcome'; tab: TabInfo; to: string; state: AppState }
+    | { type: 'heartbeat'; tab: TabInfo }
+    | { type: 'bye'; tabId: string }
+    // Redux action which changed a synchronized feature
+    | { type: 'action'; tabId: string; action: Action }
+    // Feature state which was changed by FeatureStore `setState` (setState callbacks can not be sent to other tabs)
+    | { type: 'feature-state'; tabId: string; featureKey: string; state: unknown };
+
+// Transports the messages between the tabs: e.g. `createBroadcastChannel`, `createStorageChannel` or `createInMemoryChannelHub`
+export interface TabSyncChannel {
+    postMessage(message: TabSyncMessage): void;
+    // Returns a function to remove the listener
+    onMessage(listener: (message: TabSyncMessage) => void): () => void;
+    close(): void;
+}
+
+export interface TabSyncOptions {
+    // Feature keys which are synchronized between the tabs
+    featureKeys: string[];
+    channel: TabSyncChannel;
+    // Each tab sends a heartbeat: tabs without heartbeat for 3 intervals are considered closed
+    heartbeatInterval: number;
+    // Unique ID of the tab (default: random ID)
+    tabId: string;
+}
+
+export const TAB_SYNC_APPLY_ACTION = miniRxNameSpace + '/tab-sync/apply';
+
+const defaultChannelName = miniRxNameSpace + '/tab-sync';
+
+export class TabSyncExtension extends StoreExtension {
+    id = ExtensionId.TAB_SYNC;
+
+    private readonly options: TabSyncOptions;
+    private readonly tab: TabInfo;
+    private readonly otherTabs = new Map<string, { tab: TabInfo; lastSeen: number }>();
+
+    // A new tab waits one heartbeat interval for the answers of the other tabs before it can become the leader
+    private hasJoined = false;
+    private isLeaderSource = new BehaviorSubject<boolean>(false);
+    // Emits `true` while this tab is the leader (the oldest open tab)
+    isLeader$: Observable<boolean> = this.isLeaderSource.pipe(distinctUntilChanged());
+
+    private teardown?: () => void;
+    // A closed tab does not send messages anymore (e.g. the channel is closed)
+    private isClosed = false;
+
+    constructor(options: Partial<TabSyncOptions> & Pick<TabSyncOptions, 'featureKeys'>) {
+        super();
+
+        const channel =
+            options.channel ??
+            (typeof BroadcastChannel !== 'undefined' ? createBroadcastChannel() : undefined);
+
+        if (!channel) {
+            miniRxError('TabSyncExtension: No channel available. Please provide a channel.');
+        }
+
+        this.options = {
+            heartbeatInterval: 1000,
+            tabId: generateId(),
+            ...options,
+            channel,
+        };
+        this.tab = { id: this.options.tabId, startedAt: Date.now() };
+    }
+
+    init(host?: ExtensionHost): MetaReducer<any> {
+        if (!host) {
+            miniRxError('TabSyncExtension: The extension host is missing.');
+        }
+        return this.createTabSyncMetaReducer(host);
+    }
+
+    // Runs an effect only in the leader tab: e.g. polling or websocket connections which should exist once
+    leaderOnly<T>(effect$: Observable<T>): Observable<T> {
+        return this.isLeader$.pipe(switchMap((isLeader) => (isLeader ? effect$ : EMPTY)));
+    }
+
+    // Leaves the tab group (called automatically on `pagehide`)
+    close(): void {
+        this.teardown?.();
+        this.teardown = undefined;
+        this.isClosed = true;
+        this.hasJoined = false;
+        this.isLeaderSource.next(false);
+    }
+
+    private createTabSyncMetaReducer(host: ExtensionHost): MetaReducer<any> {
+        const { channel, featureKeys, heartbeatInterval } = this.options;
+
+        // Feature states of other tabs which are not yet merged into the state
+        // (e.g. the state of a feature which has not been added yet)
+        let pendingState: AppState = {};
+        // The tab which sent the applied initial state: until the join timeout, the answers of older tabs are preferred
+        // (e.g. another new tab answers first with its initial state)
+        let initialStateTab: TabInfo | undefined;
+
+        const post = (message: TabSyncMessage) => {
+            if (this.isClosed) {
+                return;
+            }
+            try {
+                channel.postMessage(message);
+            } catch (err) {
+                miniRxConsoleError('TabSyncExtension: Sending a message failed.', err);
+            }
+        };
+
+        const getFeatureStates = (): AppState => {
+            const state = host.appState.get() ?? {};
+            return featureKeys
+                .filter((key) => state[key] !== undefined)
+                .reduce<AppState>((result, key) => {
+                    result[key] = state[key];
+                    return result;
+                }, {});
+        };
+
+        const applyFeatureStates = (featureStates: AppState) => {
+            pendingState = { ...pendingState, ...featureStates };
+            // The pending state is merged by the next action (e.g. the init action, if the store is not initialized yet)
+            host.dispatch({ type: TAB_SYNC_APPLY_ACTION });
+        };
+
+        const onMessage = (message: TabSyncMessage) => {
+            switch (message.type) {
+                case 'hello':
+                    this.addTab(message.tab);
+                    post({
+                        type: 'welcome',
+                        tab: this.tab,
+                        to: message.tab.id,
+                        state: getFeatureStates(),
+                    });
+                    break;
+                case 'welcome':
+                    this.addTab(message.tab);
+                    if (
+                        message.to === this.tab.id &&
+                        !this.hasJoined &&
+                        (!initialStateTab || compareTabs(message.tab, initialStateTab) < 0)
+                    ) {
+                        initialStateTab = message.tab;
+                        applyFeatureStates(message.state);
+                    }
+                    break;
+                case 'heartbeat':
+                    this.addTab(message.tab);
+                    break;
+                case 'bye':
+                    this.otherTabs.delete(message.tabId);
+                    this.updateLeader();
+                    break;
+                case 'action':
+                    // The remote action is wrapped: only the reducers see it (the effects already ran in the other tab)
+                    host.dispatch({ type: TAB_SYNC_APPLY_ACTION, remoteAction: message.action });
+                    break;
+                case 'feature-state':
+                    applyFeatureStates({ [message.featureKey]: message.state });
+                    break;
+            }
+        };
+
+        const removeListener = channel.onMessage(onMessage);
+
+        const intervalId = setInterval(() => {
+            this.removeInactiveTabs();
+            post({ type: 'heartbeat', tab: this.tab });
+        }, heartbeatInterval);
+
+        const onPageHide = () => this.close();
+        if (typeof window !== 'undefined') {
+            window.addEventListener('pagehide', onPageHide);
+        }
+
+        const joinTimeoutId = setTimeout(() => {
+            this.hasJoined = true;
+            this.updateLeader();
+        }, heartbeatInterval);
+
+        this.teardown = () => {
+            clearTimeout(joinTimeoutId);
+            clearInterval(intervalId);
+            removeListener();
+            if (typeof window !== 'undefined') {
+                window.removeEventListener('pagehide', onPageHide);
+            }
+            post({ type: 'bye', tabId: this.tab.id });
+            channel.close();
+        };
+
+        post({ type: 'hello', tab: this.tab });
+
+        const broadcast = (action: Action, state: AppState | undefined, nextState: AppState) => {
+            // Changes of existing features (e.g. adding a feature is not broadcast)
+            const changedKeys = featureKeys.filter(
+                (key) =>
+                    state?.[key] !== undefined &&
+                    nextState[key] !== undefined &&
+                    state[key] !== nextState[key]
+            );
+
+            if (!changedKeys.length) {
+                return;
+            }
+
+            if (action.type.startsWith(miniRxNameSpace + '/')) {
+                // E.g. setState or batch actions
+                changedKeys.forEach((featureKey) =>
+                    post({
+                        type: 'feature-state',
+                        tabId: this.tab.id,
+                        featureKey,
+                        state: nextState[featureKey],
+                    })
+                );
+            } else {
+                post({ type: 'action', tabId: this.tab.id, action });
+            }
+        };
+
+        // Only the synchronized features take the state of a remote action: the other features keep their state
+        const applyRemoteFeatureStates = (
+            state: AppState | undefined,
+            remoteState: AppState
+        ): AppState => {
+            return featureKeys.reduce<AppState>(
+                (nextState, key) =>
+                    remoteState[key] === undefined || remoteState[key] === nextState[key]
+                        ? nextState
+                        : { ...nextState, [key]: remoteState[key] },
+                state ?? {}
+            );
+        };
+
+        // Merges the pending feature states of existing features
+        const mergePendingState = (state: AppState | undefined): AppState | undefined => {
+            if (!state || !Object.keys(pendingState).length) {
+                return state;
+            }
+
+            const nextState: AppState = { ...state };
+            pendingState = Object.keys(pendingState).reduce<AppState>((stillPending, key) => {
+                if (nextState[key] !== undefined) {
+                    nextState[key] = pendingState[key];
+                } else {
+                    stillPending[key] = pendingState[key];
+                }
+                return stillPending;
+            }, {});
+            return nextState;
+        };
+
+        return (reducer: Reducer<any>): Reducer<any> => {
+            return (state: AppState | undefined, action: Action) => {
+                // The state of other tabs is merged before the reducers run: the merged changes are not broadcast again
+                const baseState = mergePendingState(state);
+
+                if (action.type === TAB_SYNC_APPLY_ACTION) {
+                    // Applied changes of other tabs are not broadcast again
+                    const remoteAction: Action | undefined = action['remoteAction'];
+                    return mergePendingState(
+                        remoteAction
+                            ? applyRemoteFeatureStates(baseState, reducer(baseState, remoteAction))
+                            : reducer(baseState, action)
+                    );
+                }
+
+                const nextState: AppState = reducer(baseState, action);
+                broadcast(action, baseState, nextState);
+
+                // E.g. the pending state of a feature which has been added by the action
+                return mergePendingState(nextState);
+            };
+        };
+    }
+
+    private addTab(tab: TabInfo): void {
+        this.otherTabs.set(tab.id, { tab, lastSeen: Date.now() });
+        this.updateLeader();
+    }
+
+    private removeInactiveTabs(): void {
+        const minLastSeen = Date.now() - this.options.heartbeatInterval * 3;
+        this.otherTabs.forEach(({ lastSeen }, tabId) => {
+            if (lastSeen < minLastSeen) {
+                this.otherTabs.delete(tabId);
+            }
+        });
+        this.updateLeader();
+    }
+
+    private updateLeader(): void {
+        const isLeader =
+            this.hasJoined &&
+            Array.from(this.otherTabs.values()).every(({ tab }) => compareTabs(this.tab, tab) < 0);
+        this.isLeaderSource.next(isLeader);
+    }
+}
+
+// Older tabs first (the tab ID decides if tabs were started at the same time)
+function compareTabs(a: TabInfo, b: TabInfo): number {
+    return a.startedAt - b.startedAt || (a.id < b.id ? -1 : 1);
+}
+
+export function createBroadcastChannel(name = defaultChannelName): TabSyncChannel {
+    const channel = new BroadcastChannel(name);
+    return {
+        postMessage: (message) => channel.postMessage(message),
+        onMessage: (listener) => {
+            const handler = (event: MessageEvent<TabSyncMessage>) => listener(event.data);
+            channel.addEventListener('message', handler);
+            return () => channel.removeEventListener('message', handler);
+        },
+        close: () => channel.close(),
+    };
+}
+
+// Fallback for browsers without BroadcastChannel: the `storage` event is fired in the other tabs
+export function createStorageChannel(
+    key = defaultChannelName,
+    storage: Storage = localStorage
+): TabSyncChannel {
+    return {
+        postMessage: (message) =>
+            // The random part makes sure that every message changes the item (and fires the `storage` event)
+            storage.setItem(key, JSON.stringify({ message, nonce: Math.random() })),
+        onMessage: (listener) => {
+            const handler = (event: StorageEvent) => {
+                if (event.key === key && event.newValue) {
+                    listener(JSON.parse(event.newValue).message);
+                }
+            };
+            window.addEventListener('storage', handler);
+            return () => window.removeEventListener('storage', handler);
+        },
+        close: () => undefined,
+    };
+}
+
+// Connects the channels of one hub: e.g. to simulate many tabs in unit tests
+export function createInMemoryChannelHub(): { createChannel(): TabSyncChannel } {
+    const listeners = new Set<(message: TabSyncMessage) => void>();
+
+    return {
+        createChannel: () => {
+            const ownListeners = new Set<(message: TabSyncMessage) => void>();
+            return {
+                postMessage: (message) => {
+                    // Like BroadcastChannel: the sender does not receive its own messages
+                    // Messages are cloned like with the structured clone algorithm
+                    const clone: TabSyncMessage = JSON.parse(JSON.stringify(message));
+                    listeners.forEach((listener) => {
+                        if (!ownListeners.has(listener)) {
+                            listener(clone);
+                        }
+                    });
+                },
+                onMessage: (listener) => {
+                    // Every listener gets its own function reference
+                    const wrappedListener = (message: TabSyncMessage) => listener(message);
+                    ownListeners.add(wrappedListener);
+                    listeners.add(wrappedListener);
+                    return () => {
+                        ownListeners.delete(wrappedListener);
+                        listeners.delete(wrappedListener);
+                    };
+                },
+                close: () => undefined,
+            };
+        },
+    };
+}
+
+// Simple alpha numeric ID: https://stackoverflow.com/a/12502559/453959
+function generateId() {
+    return Math.random().toString(36).slice(2);
+}
@@ -24,8 +24,10 @@
 // OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
 // SOFTWARE.
 
+import { BehaviorSubject, distinctUntilChanged, map, Observable, of, queueScheduler } from 'rxjs';
 import {
     Action,
+    ExtensionHost,
     ExtensionId,
     ExtensionSortOrder,
     HasComponentStoreSupport,
@@ -33,10 +35,51 @@ import {
     Reducer,
     StoreExtension,
 } from '../models';
-import { UNDO_ACTION } from '../actions';
+import {
+    CHECKPOINT_ACTION,
+    createBatchAction,
+    END_UNDO_GROUP_ACTION,
+    isBatchAction,
+    isFeatureStoreSetStateAction,
+    isUndoableAction,
+    REDO_ACTION,
+    START_UNDO_GROUP_ACTION,
+    UNDO_ACTION,
+    UNDO_LAST_ACTION,
+    UNDO_TO_CHECKPOINT_ACTION,
+    unpackBatchAction,
+} from '../actions';
 
 const defaultBufferSize = 100;
 
+// An entry of the undo history: grouped actions (see `startUndoGroup`) are undone/redone as one unit
+export type UndoHistoryEntry = Action[];
+
+export interface UndoHistory {
+    past: UndoHistoryEntry[];
+    future: UndoHistoryEntry[];
+    checkpoints: string[];
+}
+
+const emptyUndoHistory: UndoHistory = { past: [], future: [], checkpoints: [] };
+
+// Undo/redo actions of a FeatureStore carry the `featureId`: only the setState actions of that FeatureStore are affected
+type UndoScope = string | undefined;
+
+type SelectUndoHistoryFn = (scope: UndoScope) => Observable<UndoHistory>;
+
+// Every store (Redux Store or ComponentStore) has its own undo history
+const undoHistories = new WeakMap<ExtensionHost<any>, SelectUndoHistoryFn>();
+
+/** @internal Used by ComponentStore/FeatureStore */
+export function selectUndoHistory(
+    host: ExtensionHost<any>,
+    scope?: string
+): Observable<UndoHistory> {
+    const selectFn = undoHistories.get(host);
+    return selectFn ? selectFn(scope) : of(emptyUndoHistory);
+}
+
 export class UndoExtension extends StoreExtension implements HasComponentStoreSupport {
     id = ExtensionId.UNDO;
     override sortOrder = ExtensionSortOrder.UNDO_EXTENSION;
@@ -46,42 +89,306 @@ export class UndoExtension extends StoreExtension implements HasComponentStoreSu
         super();
     }
 
-    init(): MetaReducer<any> {
-        return createUndoMetaReducer(this.config.bufferSize);
+    init(host?: ExtensionHost): MetaReducer<any> {
+        const undoHistory = createUndoHistory(this.config.bufferSize);
+        if (host) {
+            undoHistories.set(host, undoHistory.select);
+        }
+        return undoHistory.metaReducer;
     }
 }
 
-function createUndoMetaReducer(bufferSize: number): MetaReducer<any> {
+function createUndoHistory(bufferSize: number): {
+    metaReducer: MetaReducer<any>;
+    select: SelectUndoHistoryFn;
+} {
     let executedActions: Array<Action> = [];
     let initialState: any;
+    // Undone entries per scope ('' is the store wide scope)
+    const redoStacks = new Map<string, UndoHistoryEntry[]>();
+    // Actions which have been dispatched within an undo group
+    const undoGroupIds = new WeakMap<Action, number>();
+    let undoGroupCount = 0;
+    let openUndoGroups = 0;
+    const historyChanged = new BehaviorSubject<void>(undefined);
+    let isHistoryChangeScheduled = false;
+
+    // The store runs the reducers on the queue scheduler: the subscribers of the history run after the reducers
+    // (e.g. the new state is already set)
+    function scheduleHistoryChange(): void {
+        if (isHistoryChangeScheduled) {
+            return;
+        }
+        isHistoryChangeScheduled = true;
+        queueScheduler.schedule(() => {
+            isHistoryChangeScheduled = false;
+            historyChanged.next();
+        });
+    }
+
+    function getScope(action: Action): UndoScope {
+        return action['featureId'];
+    }
+
+    // A batch action is undone as a unit: it is in scope if one of its actions is in scope
+    function isInScope(action: Action, scope: UndoScope): boolean {
+        return (
+            !scope ||
+            unpackBatchAction(action).some(
+                (unpackedAction) =>
+                    isFeatureStoreSetStateAction(unpackedAction) &&
+                    unpackedAction.featureId === scope
+            )
+        );
+    }
+
+    function getRedoStack(scope: UndoScope): UndoHistoryEntry[] {
+        return redoStacks.get(scope ?? '') ?? [];
+    }
+
+    function getEntries(actions: Action[], scope: UndoScope): UndoHistoryEntry[] {
+        const entries: UndoHistoryEntry[] = [];
+        let lastGroupId: number | undefined;
+
+        actions.forEach((action) => {
+            if (action.type === CHECKPOINT_ACTION || !isUndoableAction(action)) {
+                return;
+            }
+            if (!isInScope(action, scope)) {
+                return;
+            }
+
+            const groupId = undoGroupIds.get(action);
+            if (groupId && groupId === lastGroupId) {
+                entries[entries.length - 1].push(action);
+            } else {
+                entries.push([action]);
+            }
+            lastGroupId = groupId;
+        });
+
+        return entries;
+    }
+
+    function getHistory(scope: UndoScope): UndoHistory {
+        return {
+            past: getEntries(executedActions, scope),
+            future: [...getRedoStack(scope)].reverse(),
+            checkpoints: executedActions
+                .filter((action) => action.type === CHECKPOINT_ACTION && getScope(action) === scope)
+                .map((action) => action['payload']),
+        };
+    }
+
+    // The action can be part of a batch action: it is removed from the batch
+    function removeExecutedAction(actionToRemove: Action): void {
+        executedActions = executedActions.reduce<Action[]>((actions, eAct) => {
+            const newAction = removeFromBatch(eAct, actionToRemove);
+            if (newAction) {
+                const groupId = undoGroupIds.get(eAct);
+                if (groupId && newAction !== eAct) {
+                    undoGroupIds.set(newAction, groupId);
+                }
+                actions.push(newAction);
+            }
+            return actions;
+        }, []);
+    }
+
+    function replay(rootReducer: Reducer<any>): any {
+        // Call all the executed actions again on the rootReducer
+        // The result is the same state as before, but without the removed actions
+        return executedActions.reduce(
+            (newState, executedAction) =>
+                executedAction.type === CHECKPOINT_ACTION
+                    ? newState
+                    : rootReducer(newState, executedAction),
+            initialState
+        );
+    }
+
+    function undoEntries(
+        entries: UndoHistoryEntry[],
+        scope: UndoScope,
+        rootReducer: Reducer<any>
+    ): any {
+        const actionsToUndo = new Set(flatten(entries));
+        executedActions = executedActions.filter((eAct) => !actionsToUndo.has(eAct));
+        // The most recent entry is on top of the redo stack
+        redoStacks.set(scope ?? '', [...getRedoStack(scope), ...[...entries].reverse()]);
+        return replay(rootReducer);
+    }
+
+    function redoEntries(
+        count: number,
+        scope: UndoScope,
+        state: any,
+        rootReducer: Reducer<any>
+    ): any {
+        const redoStack = getRedoStack(scope);
+        const entries = redoStack.slice(Math.max(redoStack.length - count, 0)).reverse();
+        redoStacks.set(scope ?? '', redoStack.slice(0, redoStack.length - entries.length));
+
+        return flatten(entries).reduce((newState, action) => {
+            executedActions.push(action);
+            return rootReducer(newState, action);
+        }, state);
+    }
+
+    function handleUndoActions(state: any, action: Action, rootReducer: Reducer<any>): any {
+        const scope = getScope(action);
+
+        switch (action.type) {
+            case UNDO_ACTION:
+                // Remove the action we want to rollback and recalculate the state
+                removeExecutedAction(action['payload']);
+                return replay(rootReducer);
+            case UNDO_LAST_ACTION: {
+                const count: number = action['payload'];
+                const entries = getEntries(executedActions, scope);
+                return count > 0 ? undoEntries(entries.slice(-count), scope, rootReducer) : state;
+            }
+            case UNDO_TO_CHECKPOINT_ACTION: {
+                const checkpointIndex = executedActions
+                    .map(
+                        (eAct) =>
+                            eAct.type === CHECKPOINT_ACTION &&
+                            eAct['payload'] === action['payload'] &&
+                            getScope(eAct) === scope
+                    )
+                    .lastIndexOf(true);
 
-    return (rootReducer: Reducer<any>): Reducer<any> => {
-        return (state: any, action: any) => {
-            if (action.type === UNDO_ACTION) {
-                // if the action is UNDO_ACTION,
-                // then call all the actions again on the rootReducer,
-                // except the one we want to rollback
-                let newState: any = initialState;
-                executedActions = executedActions.filter((eAct) => eAct !== action.payload);
-                // update the state for every action until we get the
-                // exact same state as before, but without the action we want to rollback
-                executedActions.forEach((executedAction) => {
-                    newState = rootReducer(newState, executedAction);
-                });
-                return newState;
+                if (checkpointIndex === -1) {
+                    return state;
+                }
+                const entries = getEntries(executedActions.slice(checkpointIndex + 1), scope);
+                return undoEntries(entries, scope, rootReducer);
+            }
+            case REDO_ACTION:
+                return redoEntries(action['payload'], scope, state, rootReducer);
+            case START_UNDO_GROUP_ACTION:
+                if (openUndoGroups === 0) {
+                    undoGroupCount++;
+                }
+                openUndoGroups++;
+                return state;
+            case END_UNDO_GROUP_ACTION:
+                openUndoGroups = Math.max(openUndoGroups - 1, 0);
+                return state;
+            case CHECKPOINT_ACTION:
+                // Checkpoints are just markers in the executed actions and do not change state
+                executedActions.push(action);
+                return state;
+        }
+    }
+
+    const metaReducer: MetaReducer<any> = (rootReducer: Reducer<any>): Reducer<any> => {
+        return (state: any, action: Action) => {
+            let updatedState: any;
+            // Other actions (e.g. not undoable actions) do not change the history
+            let hasHistoryChanged =
+                isUndoableAction(action) ||
+                (isUndoHistoryAction(action) &&
+                    action.type !== START_UNDO_GROUP_ACTION &&
+                    action.type !== END_UNDO_GROUP_ACTION);
+
+            if (isUndoHistoryAction(action)) {
+                updatedState = handleUndoActions(state, action, rootReducer);
             } else {
-                // push every action that isn't UNDO_ACTION
+                // push every action that isn't an undo history action
                 executedActions.push(action);
+
+                if (isUndoableAction(action)) {
+                    if (openUndoGroups) {
+                        undoGroupIds.set(action, undoGroupCount);
+                    }
+                    // New undoable actions invalidate the redo stacks
+                    redoStacks.delete('');
+                    unpackBatchAction(action).forEach((unpackedAction) => {
+                        const scope = getScope(unpackedAction);
+                        if (scope) {
+                            redoStacks.delete(scope);
+                        }
+                    });
+                }
+
+                updatedState = rootReducer(state, action);
             }
-            const updatedState = rootReducer(state, action);
-            if (executedActions.length === bufferSize + 1) {
+
+            while (executedActions.length > bufferSize) {
                 const firstAction = executedActions[0];
                 // calculate the state x (bufferSize) actions ago
-                initialState = rootReducer(initialState, firstAction);
+                if (firstAction.type !== CHECKPOINT_ACTION) {
+                    initialState = rootReducer(initialState, firstAction);
+                }
                 // keep the correct actions
-                executedActions = executedActions.slice(1, bufferSize + 1);
+                executedActions = executedActions.slice(1);
+                if (firstAction.type === CHECKPOINT_ACTION || isUndoableAction(firstAction)) {
+                    hasHistoryChanged = true;
+                }
             }
+
+            if (hasHistoryChanged) {
+                scheduleHistoryChange();
+            }
+
             return updatedState;
         };
     };
+
+    return {
+        metaReducer,
+        select: (scope) =>
+            historyChanged.pipe(
+                map(() => getHistory(scope)),
+                distinctUntilChanged(isUndoHistoryEqual)
+            ),
+    };
+}
+
+function isUndoHistoryAction(action: Action): boolean {
+    return [
+        UNDO_ACTION,
+        UNDO_LAST_ACTION,
+        REDO_ACTION,
+        START_UNDO_GROUP_ACTION,
+        END_UNDO_GROUP_ACTION,
+        CHECKPOINT_ACTION,
+        UNDO_TO_CHECKPOINT_ACTION,
+    ].includes(action.type);
+}
+
+function isUndoHistoryEqual(a: UndoHistory, b: UndoHistory): boolean {
+    const isEntriesEqual = (entriesA: UndoHistoryEntry[], entriesB: UndoHistoryEntry[]) =>
+        entriesA.length === entriesB.length &&
+        entriesA.every(
+            (entry, i) =>
+                entry.length === entriesB[i].length &&
+                entry.every((action, j) => action === entriesB[i][j])
+        );
+
+    return (
+        isEntriesEqual(a.past, b.past) &&
+        isEntriesEqual(a.future, b.future) &&
+        a.checkpoints.join() === b.checkpoints.join()
+    );
+}
+
+// Returns the action without `actionToRemove` (undefined if nothing is left)
+function removeFromBatch(action: Action, actionToRemove: Action): Action | undefined {
+    if (action === actionToRemove) {
+        return undefined;
+    }
+    if (!isBatchAction(action) || !unpackBatchAction(action).includes(actionToRemove)) {
+        return action;
+    }
+
+    const actions = action.payload
+        .map((batchedAction) => removeFromBatch(batchedAction, actionToRemove))
+        .filter((batchedAction): batchedAction is Action => !!batchedAction);
+    return actions.length ? createBatchAction(actions) : undefined;
+}
+
+function flatten(entries: UndoHistoryEntry[]): Action[] {
+    return entries.reduce<Action[]>((actions, entry) => [...actions, ...entry], []);
 }
@@ -0,0 +1,71 @@
+import { AppState } from './models';
+import { findStoreCore, Store } from './store';
+import { BaseStore } from './base-store';
+import { FeatureStore } from './feature-store';
+import { ComponentStore } from './component-store';
+
+// The common contract of external stores: e.g. React `useSyncExternalStore` or Svelte stores
+export interface ExternalStore<T> {
+    // The listener is called with the current snapshot immediately and then on every snapshot change
+    subscribe(listener: (snapshot: T) => void): () => void;
+    // Returns the same reference as long as the snapshot did not change
+    getSnapshot(): T;
+}
+
+export function toExternalStore<StateType extends object>(
+    store: FeatureStore<StateType> | ComponentStore<StateType>
+): ExternalStore<StateType>;
+export function toExternalStore<StateType extends object, R>(
+    store: FeatureStore<StateType> | ComponentStore<StateType>,
+    selector: (state: StateType) => R
+): ExternalStore<R>;
+export function toExternalStore(store: Store): ExternalStore<AppState>;
+export function toExternalStore<R>(
+    store: Store,
+    selector: (state: AppState) => R
+): ExternalStore<R>;
+export function toExternalStore(
+    store: Store | BaseStore<any>,
+    selector: (state: any) => unknown = (state) => state
+): ExternalStore<unknown> {
+    const getState: () => object =
+        store instanceof BaseStore ? () => store.state : createStoreStateGetter(store);
+
+    // The state is immutable: the snapshot is recalculated only for a new state object
+    let lastState: object | undefined;
+    let lastSnapshot: unknown;
+
+    const selectSnapshot = (state: object) => {
+        if (state !== lastState) {
+            lastState = state;
+            lastSnapshot = selector(state);
+        }
+        return lastSnapshot;
+    };
+
+    return {
+        subscribe: (listener) => {
+            // `select` emits only distinct snapshots
+            const subscription = store.select(selectSnapshot).subscribe(listener);
+            return () => subscription.unsubscribe();
+        },
+        getSnapshot: () => selectSnapshot(getState()),
+    };
+}
+
+function createStoreStateGetter(store: Store): () => object {
+    const storeCore = findStoreCore(store);
+    if (storeCore) {
+        return () => storeCore.appState.get()!; // Non-null assertion: the Store state is initialized by `configureStore`
+    }
+
+    // Other Store implementations (e.g. MockStore): `select` emits the current state synchronously
+    return () => {
+        let state!: object;
+        store
+            .select((v) => v)
+            .subscribe((v) => (state = v))
+            .unsubscribe();
+        return state;
+    };
+}
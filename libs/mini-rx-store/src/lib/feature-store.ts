@@ -1,15 +1,20 @@
 import { Action, ComponentStoreLike, FeatureStoreConfig, Reducer, StateOrCallback } from './models';
 import { calcNewState, miniRxError } from './utils';
 import {
+    createImportStateAction,
     createMiniRxActionType,
     FeatureStoreSetStateAction,
     isFeatureStoreSetStateAction,
     MiniRxActionType,
     SetStateActionType,
-    undo,
 } from './actions';
 import { BaseStore } from './base-store';
-import { addFeature, appState, dispatch, hasUndoExtension, removeFeature } from './store-core';
+import { StoreCore } from './store-core';
+import { getStoreCore } from './store';
+import { selectUndoHistory, UndoHistory } from './extensions/undo.extension';
+import { EffectsErrorHandlerConfig } from './default-effects-error-handler';
+import { Observable } from 'rxjs';
+import { SerializerRegistry } from './serializer';
 
 export class FeatureStore<StateType extends object>
     extends BaseStore<StateType>
@@ -21,6 +26,7 @@ export class FeatureStore<StateType extends object>
     }
 
     private readonly featureId: string;
+    private readonly storeCore: StoreCore;
 
     constructor(
         featureKey: string,
@@ -29,6 +35,7 @@ export class FeatureStore<StateType extends object>
     ) {
         super();
 
+        this.storeCore = getStoreCore(config.store);
         this.featureId = generateId();
         this._featureKey = config.multi ? featureKey + '-' + generateId() : featureKey;
 
@@ -40,13 +47,15 @@ export class FeatureStore<StateType extends object>
     override setInitialState(initialState: StateType): void {
         super.setInitialState(initialState);
 
-        addFeature<StateType>(
+        this.storeCore.addFeature<StateType>(
             this._featureKey,
             createFeatureStoreReducer(this.featureId, initialState)
         );
 
         this._sub.add(
-            appState.select((state) => state[this.featureKey]).subscribe((v) => this._state.set(v))
+            this.storeCore.appState
+                .select((state) => state[this.featureKey])
+                .subscribe((v) => this._state.set(v))
         );
     }
 
@@ -58,20 +67,66 @@ export class FeatureStore<StateType extends object>
         name: string | undefined
     ): Action {
         const action = createSetStateAction(stateOrCallback, this.featureId, this.featureKey, name);
-        dispatch(action);
+        this.storeCore.dispatch(action);
         return action;
     }
 
     // Implementation of abstract method from BaseStore
-    undo(action: Action): void {
-        hasUndoExtension
-            ? dispatch(undo(action))
+    batch(fn: () => void): void {
+        this.storeCore.batch(fn);
+    }
+
+    /** @internal
+     * Implementation of abstract method from BaseStore
+     */
+    _dispatchUndoAction(action: Action): void {
+        // The featureId limits undo/redo to the setState actions of this FeatureStore
+        this.storeCore.hasUndoExtension
+            ? this.storeCore.dispatch({ ...action, featureId: this.featureId })
             : miniRxError('UndoExtension is not initialized.');
     }
 
+    /** @internal
+     * Implementation of abstract method from BaseStore
+     */
+    _selectUndoHistory(): Observable<UndoHistory> {
+        return selectUndoHistory(this.storeCore, this.featureId);
+    }
+
+    /** @internal
+     * Implementation of abstract method from BaseStore
+     */
+    _getEffectsErrorHandlerConfig(): EffectsErrorHandlerConfig {
+        return {
+            retries: this.storeCore.effectRetries,
+            storeName: this.featureKey,
+            errors: this.storeCore.effectErrors,
+        };
+    }
+
+    /** @internal
+     * Implementation of abstract method from BaseStore
+     */
+    _getSerializer(): SerializerRegistry | undefined {
+        return this.storeCore.serializer;
+    }
+
+    /** @internal
+     * Implementation of abstract method from BaseStore
+     */
+    _setImportedState(state: StateType): void {
+        const appState = this.storeCore.appState.get();
+        if (!appState || !Object.prototype.hasOwnProperty.call(appState, this.featureKey)) {
+            miniRxError(`importState: The feature "${this.featureKey}" does not exist.`);
+        }
+        this.storeCore.dispatch(
+            createImportStateAction({ [this.featureKey]: state }, this.featureKey)
+        );
+    }
+
     override destroy() {
         super.destroy();
-        removeFeature(this._featureKey);
+        this.storeCore.removeFeature(this._featureKey);
     }
 }
 
@@ -36,7 +36,10 @@ function isEqual(first: unknown, second: unknown): boolean {
     return false;
 }
 
-function areInputsEqual(newInputs: readonly unknown[], lastInputs: readonly unknown[]): boolean {
+export function areInputsEqual(
+    newInputs: readonly unknown[],
+    lastInputs: readonly unknown[]
+): boolean {
     // no checks needed if the inputs length has changed
     if (newInputs.length !== lastInputs.length) {
         return false;
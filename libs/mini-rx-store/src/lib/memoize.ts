@@ -0,0 +1,103 @@
+import { areInputsEqual } from './memoize-one';
+import { miniRxError } from './utils';
+
+export type AnyFn = (...args: any[]) => any;
+
+// A memoizer wraps a function and caches its results (e.g. `memoizeOne`)
+export type Memoizer = <TFunc extends AnyFn>(
+    fn: TFunc
+) => (...args: Parameters<TFunc>) => ReturnType<TFunc>;
+
+interface LruCacheEntry {
+    args: unknown[];
+    result: unknown;
+}
+
+// Caches the results of the last `maxSize` argument lists
+// The least recently used entry is removed first
+export function createLruMemoizer(maxSize: number): Memoizer {
+    if (!(maxSize >= 1)) {
+        miniRxError('The size of the LRU memoizer must be at least 1.');
+    }
+
+    return <TFunc extends AnyFn>(fn: TFunc): TFunc => {
+        // Most recently used entry first
+        let entries: LruCacheEntry[] = [];
+
+        return function (this: unknown, ...args: unknown[]) {
+            const index = entries.findIndex((entry) => areInputsEqual(args, entry.args));
+
+            if (index > -1) {
+                const entry = entries[index];
+                if (index > 0) {
+                    entries = [entry, ...entries.slice(0, index), ...entries.slice(index + 1)];
+                }
+                return entry.result;
+            }
+
+            // Calculate the result first: if `fn` throws, then the cache is not changed
+            const result = fn.apply(this, args);
+            entries = [{ args, result }, ...entries].slice(0, maxSize);
+
+            return result;
+        } as TFunc;
+    };
+}
+
+interface WeakCacheNode {
+    objects?: WeakMap<object, WeakCacheNode>;
+    primitives?: Map<unknown, WeakCacheNode>;
+    hasResult?: boolean;
+    result?: unknown;
+}
+
+// Primitive arguments (e.g. ids) can not be stored in a WeakMap: every cache node keeps the most recently used primitives
+const maxPrimitiveEntries = 100;
+
+// Caches the results for all object arguments without a size limit
+// The arguments are the path in a tree of cache nodes: objects are stored in a WeakMap
+// The cache entries are garbage collected together with their object arguments (e.g. an old state object)
+// Primitive arguments are stored in an LRU cache (max. 100 entries per argument position and preceding arguments)
+export const weakMemoize: Memoizer = <TFunc extends AnyFn>(fn: TFunc): TFunc => {
+    const root: WeakCacheNode = {};
+
+    return function (this: unknown, ...args: unknown[]) {
+        const node = args.reduce<WeakCacheNode>(getChildNode, root);
+
+        if (node.hasResult) {
+            return node.result;
+        }
+
+        const result = fn.apply(this, args);
+        node.hasResult = true;
+        node.result = result;
+
+        return result;
+    } as TFunc;
+};
+
+function getChildNode(node: WeakCacheNode, arg: unknown): WeakCacheNode {
+    if ((typeof arg === 'object' && arg !== null) || typeof arg === 'function') {
+        node.objects = node.objects ?? new WeakMap();
+
+        let child = node.objects.get(arg);
+        if (!child) {
+            child = {};
+            node.objects.set(arg, child);
+        }
+        return child;
+    }
+
+    node.primitives = node.primitives ?? new Map();
+    const primitives = node.primitives;
+
+    // The Map keeps the insertion order: the most recently used primitive is (re-)inserted last
+    const child = primitives.get(arg) ?? {};
+    primitives.delete(arg);
+    primitives.set(arg, child);
+
+    if (primitives.size > maxPrimitiveEntries) {
+        primitives.delete(primitives.keys().next().value);
+    }
+    return child;
+}
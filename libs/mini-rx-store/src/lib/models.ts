@@ -1,4 +1,7 @@
 import { Observable } from 'rxjs';
+import { Store } from './store';
+import { State } from './state';
+import { SerializerRegistry } from './serializer';
 
 export const enum ExtensionSortOrder {
     DEFAULT = 0,
@@ -15,25 +18,58 @@ export const enum ExtensionId {
     UNDO,
     LOGGER,
     REDUX_DEVTOOLS,
+    PERSIST_STATE,
+    RUNTIME_CHECKS,
+    PERFORMANCE,
+    TAB_SYNC,
+    REMOTE_DEVTOOLS,
+    SESSION_RECORDER,
+}
+
+// The store instance which an extension is registered to
+// Implemented by StoreCore (Redux Store) and ComponentStore
+export interface ExtensionHost<StateType extends object = AppState> {
+    // Display name of the store (e.g. used for the instance name in the Redux DevTools)
+    name?: string;
+    actions$: Actions;
+    appState: State<StateType>;
+    dispatch(action: Action): void;
+    // The serializer of the store config (e.g. used by the Redux DevTools or PersistStateExtension)
+    serializer?: SerializerRegistry;
+    // Registers a teardown which runs when the store is destroyed (e.g. `ComponentStore.destroy`)
+    onDestroy?(teardown: () => void): void;
+    // The current reducer without meta reducers (e.g. the Redux DevTools recompute states without running the extensions again)
+    getPlainReducer?(): Reducer<StateType>;
+    // Wraps every feature reducer (e.g. to measure the feature reducers individually)
+    wrapFeatureReducers?(
+        wrapper: (reducer: Reducer<any>, featureKey: string) => Reducer<any>
+    ): void;
 }
 
 export abstract class StoreExtension {
     abstract id: ExtensionId;
     sortOrder: ExtensionSortOrder = ExtensionSortOrder.DEFAULT;
 
-    abstract init(): MetaReducer<any> | void;
+    abstract init(host?: ExtensionHost): MetaReducer<any> | void;
 }
 
 export interface HasComponentStoreSupport {
     hasCsSupport: true;
 
-    init(): MetaReducer<any>;
+    init(host?: ExtensionHost): MetaReducer<any>;
 }
 
 export type ComponentStoreExtension = StoreExtension & HasComponentStoreSupport;
 
 export interface ComponentStoreConfig {
-    extensions: ComponentStoreExtension[];
+    extensions?: ComponentStoreExtension[];
+    interceptors?: ActionInterceptor<any>[];
+    // Used by extensions to identify the store (e.g. in the Redux DevTools), defaults to the class name
+    name?: string;
+    // Max number of effect resubscriptions after an error (default: 10)
+    effectRetries?: number;
+    // Used by `exportState`/`importState` and the extensions (e.g. to serialize Date, Map or Set)
+    serializer?: SerializerRegistry;
 }
 
 export interface Action {
@@ -52,8 +88,27 @@ export interface StoreConfig<T> {
     metaReducers?: MetaReducer<AppState>[];
     extensions?: StoreExtension[];
     combineReducersFn?: CombineReducersFn<AppState>;
+    interceptors?: ActionInterceptor<AppState>[];
+    // Max number of effect resubscriptions after an error (default: 10)
+    effectRetries?: number;
+    // Used by `exportState`/`importState` and the extensions (e.g. to serialize Date, Map or Set)
+    serializer?: SerializerRegistry;
 }
 
+export interface ActionInterceptorApi<StateType> {
+    // Dispatches an action through all interceptors
+    dispatch: (action: Action) => void;
+    getState: () => StateType | undefined;
+}
+
+// Interceptors see every action before it reaches the reducers, effects and `actions$` subscribers
+// Call `next` to pass on the (rewritten) action, skip `next` to drop the action
+export type ActionInterceptor<StateType> = (
+    action: Action,
+    next: (action: Action) => void,
+    api: ActionInterceptorApi<StateType>
+) => void;
+
 // Used for the Redux API: Store.feature / StoreModule.forFeature
 export interface FeatureConfig<StateType> {
     initialState: StateType;
@@ -63,6 +118,8 @@ export interface FeatureConfig<StateType> {
 // Used for createFeatureStore, new FeatureStore
 export interface FeatureStoreConfig {
     multi?: boolean;
+    // Bind the FeatureStore to a store instance created with `createStore` (defaults to the global store)
+    store?: Store;
 }
 
 export class Actions extends Observable<Action> {}
@@ -89,6 +146,32 @@ export interface EffectConfig {
      * If false, effect does not need to return type `Observable<Action>`.
      */
     dispatch?: boolean;
+    /**
+     * If false, MiniRx does not handle the errors of the effect: the effect is not resubscribed and its errors are not reported in `errors$`.
+     */
+    useEffectsErrorHandler?: boolean;
+    /**
+     * Max number of resubscriptions after an error (overrides `effectRetries` of the store config).
+     */
+    retries?: number;
+    /**
+     * Identifies the effect in `errors$`.
+     */
+    name?: string;
+}
+
+export interface EffectError {
+    error: unknown;
+    // The store which runs the effect: 'Store' (Redux API), the feature key (FeatureStore) or the ComponentStore name
+    storeName: string;
+    effectName?: string;
+}
+
+export interface EffectRegistrationConfig {
+    /**
+     * Scopes the effect to a feature: the effect is unsubscribed when the feature is removed.
+     */
+    featureKey?: string;
 }
 
 export interface HasEffectMetadata {
@@ -25,26 +25,72 @@
 // SOFTWARE.
 
 import { memoizeOne } from './memoize-one';
+import { Memoizer, weakMemoize } from './memoize';
+import { isDeepEqual, miniRxConsoleWarn } from './utils';
 
 export type Selector<T, V> = (state: T) => V;
 
+// Selectors with props are called with the state and the props: e.g. `selectTodoById(state, id)`
+export type SelectorWithProps<T, Props, V> = (state: T, props: Props) => V;
+
+export type DefaultProjectorFn<Result> = (...args: any[]) => Result;
+
+export interface MemoizedSelectorMetadata<Result, ProjectorFn> {
+    // The original projector function (e.g. for unit tests of the projector)
+    projector: ProjectorFn;
+    // Number of projector calls (the projector is not called if the memoized result is used)
+    recomputations(): number;
+    resetRecomputations(): void;
+    // Clears the memoized results
+    release(): void;
+    // Overrides the result of the selector (e.g. in unit tests)
+    setResult(result: Result): void;
+    clearResult(): void;
+}
+
+export type MemoizedSelector<State, Result, ProjectorFn = DefaultProjectorFn<Result>> = Selector<
+    State,
+    Result
+> &
+    MemoizedSelectorMetadata<Result, ProjectorFn>;
+
+export type MemoizedSelectorWithProps<
+    State,
+    Props,
+    Result,
+    ProjectorFn = DefaultProjectorFn<Result>
+> = SelectorWithProps<State, Props, Result> & MemoizedSelectorMetadata<Result, ProjectorFn>;
+
+export interface SelectorConfig {
+    // Warns if a projector returns a new object which is deep-equal to its previous result
+    // A new object makes `select` emit, although nothing has changed (recommended for development only)
+    warnOnDeepEqualResults?: boolean;
+}
+
+let selectorConfig: SelectorConfig = {};
+
+// Configures all selectors created by `createSelector` or `createSelectorFactory`
+export function configureSelectors(config: SelectorConfig): void {
+    selectorConfig = config;
+}
+
 export function createSelector<State, S1, Result>(
     s1: Selector<State, S1>,
     projector: (s1: S1) => Result
-): Selector<State, Result>;
+): MemoizedSelector<State, Result, (s1: S1) => Result>;
 
 export function createSelector<State, S1, S2, Result>(
     s1: Selector<State, S1>,
     s2: Selector<State, S2>,
     projector: (s1: S1, s2: S2) => Result
-): Selector<State, Result>;
+): MemoizedSelector<State, Result, (s1: S1, s2: S2) => Result>;
 
 export function createSelector<State, S1, S2, S3, Result>(
     s1: Selector<State, S1>,
     s2: Selector<State, S2>,
     s3: Selector<State, S3>,
     projector: (s1: S1, s2: S2, s3: S3) => Result
-): Selector<State, Result>;
+): MemoizedSelector<State, Result, (s1: S1, s2: S2, s3: S3) => Result>;
 
 export function createSelector<State, S1, S2, S3, S4, Result>(
     s1: Selector<State, S1>,
@@ -52,7 +98,7 @@ export function createSelector<State, S1, S2, S3, S4, Result>(
     s3: Selector<State, S3>,
     s4: Selector<State, S4>,
     projector: (s1: S1, s2: S2, s3: S3, s4: S4) => Result
-): Selector<State, Result>;
+): MemoizedSelector<State, Result, (s1: S1, s2: S2, s3: S3, s4: S4) => Result>;
 
 export function createSelector<State, S1, S2, S3, S4, S5, Result>(
     s1: Selector<State, S1>,
@@ -61,7 +107,7 @@ export function createSelector<State, S1, S2, S3, S4, S5, Result>(
     s4: Selector<State, S4>,
     s5: Selector<State, S5>,
     projector: (s1: S1, s2: S2, s3: S3, s4: S4, s5: S5) => Result
-): Selector<State, Result>;
+): MemoizedSelector<State, Result, (s1: S1, s2: S2, s3: S3, s4: S4, s5: S5) => Result>;
 
 export function createSelector<State, S1, S2, S3, S4, S5, S6, Result>(
     s1: Selector<State, S1>,
@@ -71,7 +117,7 @@ export function createSelector<State, S1, S2, S3, S4, S5, S6, Result>(
     s5: Selector<State, S5>,
     s6: Selector<State, S6>,
     projector: (s1: S1, s2: S2, s3: S3, s4: S4, s5: S5, s6: S6) => Result
-): Selector<State, Result>;
+): MemoizedSelector<State, Result, (s1: S1, s2: S2, s3: S3, s4: S4, s5: S5, s6: S6) => Result>;
 
 export function createSelector<State, S1, S2, S3, S4, S5, S6, S7, Result>(
     s1: Selector<State, S1>,
@@ -82,7 +128,11 @@ export function createSelector<State, S1, S2, S3, S4, S5, S6, S7, Result>(
     s6: Selector<State, S6>,
     s7: Selector<State, S7>,
     projector: (s1: S1, s2: S2, s3: S3, s4: S4, s5: S5, s6: S6, s7: S7) => Result
-): Selector<State, Result>;
+): MemoizedSelector<
+    State,
+    Result,
+    (s1: S1, s2: S2, s3: S3, s4: S4, s5: S5, s6: S6, s7: S7) => Result
+>;
 
 export function createSelector<State, S1, S2, S3, S4, S5, S6, S7, S8, Result>(
     s1: Selector<State, S1>,
@@ -94,32 +144,153 @@ export function createSelector<State, S1, S2, S3, S4, S5, S6, S7, S8, Result>(
     s7: Selector<State, S7>,
     s8: Selector<State, S8>,
     projector: (s1: S1, s2: S2, s3: S3, s4: S4, s5: S5, s6: S6, s7: S7, s8: S8) => Result
-): Selector<State, Result>;
+): MemoizedSelector<
+    State,
+    Result,
+    (s1: S1, s2: S2, s3: S3, s4: S4, s5: S5, s6: S6, s7: S7, s8: S8) => Result
+>;
+
+export function createSelector<State, Props, S1, Result>(
+    s1: SelectorWithProps<State, Props, S1>,
+    projector: (s1: S1, props: Props) => Result
+): MemoizedSelectorWithProps<State, Props, Result, (s1: S1, props: Props) => Result>;
+
+export function createSelector<State, Props, S1, S2, Result>(
+    s1: SelectorWithProps<State, Props, S1>,
+    s2: SelectorWithProps<State, Props, S2>,
+    projector: (s1: S1, s2: S2, props: Props) => Result
+): MemoizedSelectorWithProps<State, Props, Result, (s1: S1, s2: S2, props: Props) => Result>;
+
+export function createSelector<State, Props, S1, S2, S3, Result>(
+    s1: SelectorWithProps<State, Props, S1>,
+    s2: SelectorWithProps<State, Props, S2>,
+    s3: SelectorWithProps<State, Props, S3>,
+    projector: (s1: S1, s2: S2, s3: S3, props: Props) => Result
+): MemoizedSelectorWithProps<
+    State,
+    Props,
+    Result,
+    (s1: S1, s2: S2, s3: S3, props: Props) => Result
+>;
+
+export function createSelector<State, Props, S1, S2, S3, S4, Result>(
+    s1: SelectorWithProps<State, Props, S1>,
+    s2: SelectorWithProps<State, Props, S2>,
+    s3: SelectorWithProps<State, Props, S3>,
+    s4: SelectorWithProps<State, Props, S4>,
+    projector: (s1: S1, s2: S2, s3: S3, s4: S4, props: Props) => Result
+): MemoizedSelectorWithProps<
+    State,
+    Props,
+    Result,
+    (s1: S1, s2: S2, s3: S3, s4: S4, props: Props) => Result
+>;
 
 export function createSelector<
     Selectors extends Record<string, Selector<State, unknown>>,
-    State = Selectors extends Record<string, Selector<infer S, unknown>>
-        ? S
-        : never,
+    State = Selectors extends Record<string, Selector<infer S, unknown>> ? S : never,
     Result extends Record<string, unknown> = {
-        [Key in keyof Selectors]: Selectors[Key] extends Selector<State, infer R>
-            ? R
-            : never;
+        [Key in keyof Selectors]: Selectors[Key] extends Selector<State, infer R> ? R : never;
     }
->(selectors: Selectors): Selector<State, Result>;
+>(selectors: Selectors): MemoizedSelector<State, Result>;
+
+export function createSelector(...args: any[]): MemoizedSelector<any, any> {
+    return createSelectorWithMemoizer(memoizeOne, args);
+}
+
+// Creates a `createSelector` function which memoizes with a custom memoizer (e.g. `createLruMemoizer(10)`)
+// The default `createSelector` uses `memoizeOne`
+export function createSelectorFactory(memoize: Memoizer): typeof createSelector {
+    return ((...args: any[]) => createSelectorWithMemoizer(memoize, args)) as typeof createSelector;
+}
 
-export function createSelector(...args: any[]): Selector<any, any> {
+function createSelectorWithMemoizer(memoize: Memoizer, args: any[]): MemoizedSelector<any, any> {
     if (args.length === 1 && isSelectorsDictionary(args[0])) {
-        args = extractArgsFromSelectorsDictionary(args[0])
+        args = extractArgsFromSelectorsDictionary(args[0]);
     }
-    const selectors = args.slice(0, args.length - 1);
+    const selectors: AnySelector[] = args.slice(0, args.length - 1);
     const projector = args[args.length - 1];
-    const memoizedProjector = memoizeOne(projector);
+    // The props are passed only to the selectors and the projector which declare them:
+    // e.g. an input selector without props is memoized once for all props
+    const selectorsTakeProps = selectors.map(takesProps);
+    const projectorTakesProps = projector.length > selectors.length;
+    const usesProps = projectorTakesProps || selectorsTakeProps.some(Boolean);
+
+    let recomputations = 0;
+    // The previous result per props: results for different props are not compared
+    let getLastResult = weakMemoize(createLastResult);
+    let overriddenResult: { value: unknown } | undefined;
+
+    const instrumentedProjector = (...projectorArgs: unknown[]) => {
+        recomputations++;
+        const result = projector(...projectorArgs);
+        if (selectorConfig.warnOnDeepEqualResults) {
+            // The projector of a selector with props receives the props after the selector results
+            const lastResult = getLastResult(...projectorArgs.slice(selectors.length));
+
+            if (
+                lastResult.hasValue &&
+                result !== lastResult.value &&
+                isDeepEqual(result, lastResult.value)
+            ) {
+                miniRxConsoleWarn(
+                    'A selector projector returned a new object which is deep-equal to its previous result. ' +
+                        '`select` emits the new object although nothing has changed. Return the previous result instead.'
+                );
+            }
+            lastResult.hasValue = true;
+            lastResult.value = result;
+        }
+
+        return result;
+    };
+
+    let memoizedSelector!: AnySelector;
+    // (Re)creates the memoized functions with an empty cache
+    const initMemoizedSelector = () => {
+        const memoizedProjector = memoize(instrumentedProjector);
+
+        memoizedSelector = memoize((state: unknown, ...props: unknown[]) => {
+            const selectorResults = selectors.map((fn, index) =>
+                selectorsTakeProps[index] ? fn(state, ...props) : fn(state)
+            );
+            // The projector of a selector with props receives the props as last argument
+            return projectorTakesProps
+                ? memoizedProjector(...selectorResults, ...props)
+                : memoizedProjector(...selectorResults);
+        });
+    };
+    initMemoizedSelector();
+
+    const selector = (state: unknown, ...props: unknown[]) => {
+        if (overriddenResult) {
+            return overriddenResult.value;
+        }
+        return usesProps ? memoizedSelector(state, ...props) : memoizedSelector(state);
+    };
+    if (usesProps) {
+        selectorsWithProps.add(selector);
+    }
 
-    return memoizeOne((state) => {
-        const selectorResults = selectors.map((fn) => fn(state));
-        return memoizedProjector.apply(null, selectorResults);
-    });
+    const metadata: MemoizedSelectorMetadata<unknown, DefaultProjectorFn<unknown>> = {
+        projector,
+        recomputations: () => recomputations,
+        resetRecomputations: () => {
+            recomputations = 0;
+        },
+        release: () => {
+            initMemoizedSelector();
+            getLastResult = weakMemoize(createLastResult);
+        },
+        setResult: (result) => {
+            overriddenResult = { value: result };
+        },
+        clearResult: () => {
+            overriddenResult = undefined;
+        },
+    };
+
+    return Object.assign(selector, metadata);
 }
 
 /** @deprecated Use `createFeatureStateSelector` which is more in line with `createComponentStateSelector` */
@@ -142,6 +313,25 @@ export function createComponentStateSelector<T>(): Selector<T, T> {
     return (state: T) => state;
 }
 
+type AnySelector = (state: unknown, ...props: unknown[]) => unknown;
+
+// Memoized selectors declare rest parameters (`fn.length` is 0): they are marked if they use props
+const selectorsWithProps = new WeakSet<AnySelector>();
+
+function takesProps(selector: AnySelector): boolean {
+    return selector.length > 1 || selectorsWithProps.has(selector);
+}
+
+interface LastResult {
+    props: unknown[];
+    hasValue?: boolean;
+    value?: unknown;
+}
+
+function createLastResult(...props: unknown[]): LastResult {
+    return { props };
+}
+
 function isSelectorsDictionary(
     selectors: unknown
 ): selectors is Record<string, Selector<unknown, unknown>> {
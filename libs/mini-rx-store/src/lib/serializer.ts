@@ -0,0 +1,161 @@
+import { isPlainObjectOrArray, miniRxError } from './utils';
+
+// Serializes a type which is not supported by JSON (e.g. Date, Map, Set or class instances)
+export interface TypeSerializer<T = any> {
+    // Unique name of the type in the serialized JSON
+    type: string;
+    test(value: unknown): boolean;
+    // Returns a JSON compatible value (nested values are serialized as well)
+    serialize(value: T): unknown;
+    deserialize(data: any): T;
+}
+
+// Replacers/revivers per type: used by `exportState`/`importState`, the DevTools, the LoggerExtension and the PersistStateExtension
+export interface SerializerRegistry {
+    register(...serializers: TypeSerializer[]): SerializerRegistry;
+    // Can be passed to `JSON.stringify` and `JSON.parse`
+    replacer(this: unknown, key: string, value: unknown): unknown;
+    reviver(key: string, value: unknown): unknown;
+    stringify(value: unknown): string;
+    parse<T = unknown>(text: string): T;
+}
+
+interface SerializedValue {
+    [serializedTypeKey]: string;
+    value: unknown;
+}
+
+const serializedTypeKey = '__miniRxType';
+
+export const dateSerializer: TypeSerializer<Date> = {
+    type: 'Date',
+    test: (value) => value instanceof Date,
+    serialize: (value) => value.toISOString(),
+    deserialize: (data: string) => new Date(data),
+};
+
+export const mapSerializer: TypeSerializer<Map<unknown, unknown>> = {
+    type: 'Map',
+    test: (value) => value instanceof Map,
+    serialize: (value) => Array.from(value.entries()),
+    deserialize: (data: [unknown, unknown][]) => new Map(data),
+};
+
+export const setSerializer: TypeSerializer<Set<unknown>> = {
+    type: 'Set',
+    test: (value) => value instanceof Set,
+    serialize: (value) => Array.from(value.values()),
+    deserialize: (data: unknown[]) => new Set(data),
+};
+
+// Serializes the own properties of class instances: e.g. `createClassSerializer('Money', Money)`
+export function createClassSerializer<T extends object>(
+    type: string,
+    classRef: new (...args: any[]) => T
+): TypeSerializer<T> {
+    return {
+        type,
+        test: (value) => value instanceof classRef,
+        serialize: (value) => ({ ...value }),
+        deserialize: (data: object) => Object.assign(Object.create(classRef.prototype), data),
+    };
+}
+
+// The registry supports Date, Map and Set by default
+export function createSerializerRegistry(
+    serializers: TypeSerializer[] = [dateSerializer, mapSerializer, setSerializer]
+): SerializerRegistry {
+    const serializersByType = new Map<string, TypeSerializer>();
+
+    const registry: SerializerRegistry = {
+        register: (...newSerializers) => {
+            newSerializers.forEach((serializer) =>
+                serializersByType.set(serializer.type, serializer)
+            );
+            return registry;
+        },
+        replacer(key, value) {
+            // `JSON.stringify` calls `toJSON` (e.g. of Date) before the replacer: use the original value of the holder object
+            const holder = this as Record<string, unknown> | undefined;
+            const originalValue =
+                holder && typeof holder === 'object' && key in holder ? holder[key] : value;
+
+            const serializer = Array.from(serializersByType.values()).find((s) =>
+                s.test(originalValue)
+            );
+            if (!serializer) {
+                return value;
+            }
+
+            const serializedValue: SerializedValue = {
+                [serializedTypeKey]: serializer.type,
+                value: serializer.serialize(originalValue),
+            };
+            return serializedValue;
+        },
+        reviver: (key, value) => {
+            if (!isSerializedValue(value)) {
+                return value;
+            }
+
+            const serializer = serializersByType.get(value[serializedTypeKey]);
+            if (!serializer) {
+                miniRxError(
+                    `No serializer is registered for the type "${value[serializedTypeKey]}".`
+                );
+            }
+            return serializer.deserialize(value.value);
+        },
+        stringify: (value) => JSON.stringify(value, registry.replacer),
+        parse: (text) => JSON.parse(text, registry.reviver),
+    };
+
+    return registry.register(...serializers);
+}
+
+function isSerializedValue(value: unknown): value is SerializedValue {
+    return (
+        isPlainObjectOrArray(value) &&
+        typeof (value as Record<string, unknown>)[serializedTypeKey] === 'string'
+    );
+}
+
+interface StateSnapshot {
+    miniRxStateSnapshot: number;
+    state: unknown;
+}
+
+const stateSnapshotVersion = 1;
+
+// The snapshot format of `exportState` (e.g. to create snapshots of a custom state source)
+export function createStateSnapshot(
+    state: unknown,
+    serializer: SerializerRegistry = createSerializerRegistry()
+): string {
+    const snapshot: StateSnapshot = {
+        miniRxStateSnapshot: stateSnapshotVersion,
+        state,
+    };
+    return serializer.stringify(snapshot);
+}
+
+// Validates a snapshot of `exportState` and returns its state object
+export function parseStateSnapshot(
+    snapshot: string,
+    serializer: SerializerRegistry = createSerializerRegistry()
+): Record<string, unknown> {
+    let parsed: Partial<StateSnapshot> | undefined;
+    try {
+        parsed = serializer.parse(snapshot);
+    } catch (err) {
+        miniRxError(`importState: The snapshot could not be parsed (${(err as Error).message}).`);
+    }
+
+    if (parsed?.miniRxStateSnapshot !== stateSnapshotVersion) {
+        miniRxError('importState: The snapshot is not a valid state snapshot.');
+    }
+    if (!isPlainObjectOrArray(parsed.state) || Array.isArray(parsed.state)) {
+        miniRxError('importState: The state of the snapshot must be an object.');
+    }
+    return parsed.state as Record<string, unknown>;
+}
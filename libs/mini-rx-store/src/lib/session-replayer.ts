@@ -0,0 +1,224 @@
+import { Action, AppState, MetaReducer, Reducer, ReducerDictionary } from './models';
+import {
+    calcNewState,
+    combineMetaReducers,
+    createBatchReducer,
+    isPlainObjectOrArray,
+    miniRxError,
+} from './utils';
+import { isBatchAction, isFeatureStoreSetStateAction } from './actions';
+import { miniRxNameSpace } from './constants';
+import {
+    createSerializerRegistry,
+    createStateSnapshot,
+    parseStateSnapshot,
+    SerializerRegistry,
+} from './serializer';
+import { RECORDED_SESSION_VERSION, RecordedSession } from './extensions/session-recorder.extension';
+
+export interface ReplayStep {
+    index: number;
+    action: Action;
+    // The replayed state
+    state: AppState;
+    // The state of the recorded session
+    recordedState: AppState;
+    // Property paths where the replayed state diverges from the recorded state (e.g. "todos.items.0.done")
+    divergentPaths: string[];
+}
+
+export interface SessionReplayerConfig {
+    // The reducers of the Redux Store (FeatureStore setState actions are replayed without reducers)
+    reducers: ReducerDictionary<AppState>;
+    metaReducers: MetaReducer<AppState>[];
+    // Parses the exported session: use the serializer of the recording store (e.g. with custom type serializers)
+    serializer: SerializerRegistry;
+}
+
+// Rebuilds the state timeline of a recorded session offline (without store)
+export class SessionReplayer {
+    private readonly session: RecordedSession;
+    private readonly reducer: Reducer<AppState>;
+    private readonly serializer: SerializerRegistry;
+    private steps: ReplayStep[] = [];
+
+    private _index = -1;
+    // -1: the initial state of the session
+    get index(): number {
+        return this._index;
+    }
+
+    get state(): AppState {
+        return this._index === -1 ? this.initialState : this.steps[this._index].state;
+    }
+
+    get length(): number {
+        return this.session.entries.length;
+    }
+
+    // The replayed steps where the replayed state diverges from the recorded state
+    get divergences(): ReplayStep[] {
+        return this.steps.filter((step) => step.divergentPaths.length);
+    }
+
+    private get initialState(): AppState {
+        return this.session.initialState ?? {};
+    }
+
+    constructor(session: RecordedSession | string, config: Partial<SessionReplayerConfig> = {}) {
+        this.serializer = config.serializer ?? createSerializerRegistry();
+        // A copy of the session: the replayed states do not share references with the recorded states
+        this.session = parseSession(session, this.serializer);
+
+        this.reducer = combineMetaReducers(config.metaReducers ?? [])(
+            createBatchReducer(createReplayReducer(config.reducers ?? {}))
+        );
+    }
+
+    // Replays the next entry
+    step(): ReplayStep | undefined {
+        if (this._index + 1 >= this.length) {
+            return undefined;
+        }
+        return this.goTo(this._index + 1);
+    }
+
+    // Replays the session up to the index (-1: the initial state)
+    goTo(index: number): ReplayStep | undefined {
+        if (index < -1 || index >= this.length) {
+            miniRxError(`SessionReplayer: The index ${index} is out of range.`);
+        }
+
+        while (this.steps.length <= index) {
+            this.steps.push(this.replayEntry(this.steps.length));
+        }
+
+        this._index = index;
+        return this.steps[index];
+    }
+
+    replayAll(): ReplayStep[] {
+        this.goTo(this.length - 1);
+        return [...this.steps];
+    }
+
+    reset(): void {
+        this.steps = [];
+        this._index = -1;
+    }
+
+    private copy<T>(value: T): T {
+        return this.serializer.parse(this.serializer.stringify(value));
+    }
+
+    private replayEntry(index: number): ReplayStep {
+        const { action, state: recordedState } = this.session.entries[index];
+        const prevState = index === 0 ? this.initialState : this.steps[index - 1].state;
+
+        // MiniRx actions like init/destroy feature or undo depend on the store: the recorded state is used
+        const state = isReplayableAction(action)
+            ? this.reducer(prevState, action)
+            : this.copy(recordedState);
+
+        return {
+            index,
+            action,
+            state,
+            recordedState,
+            // The recorded state was serialized: e.g. `undefined` properties are removed
+            divergentPaths: findDivergentPaths(
+                this.copy(state),
+                recordedState,
+                (value, recordedValue) =>
+                    this.serializer.stringify(value) === this.serializer.stringify(recordedValue)
+            ),
+        };
+    }
+}
+
+export function createSessionReplayer(
+    session: RecordedSession | string,
+    config?: Partial<SessionReplayerConfig>
+): SessionReplayer {
+    return new SessionReplayer(session, config);
+}
+
+function parseSession(
+    session: RecordedSession | string,
+    serializer: SerializerRegistry
+): RecordedSession {
+    let parsed: Partial<RecordedSession> | undefined;
+    try {
+        parsed = parseStateSnapshot(
+            typeof session === 'string' ? session : createStateSnapshot(session, serializer),
+            serializer
+        );
+    } catch {
+        parsed = undefined;
+    }
+
+    if (parsed?.version !== RECORDED_SESSION_VERSION || !Array.isArray(parsed.entries)) {
+        miniRxError('SessionReplayer: The session is not a valid recorded session.');
+    }
+    return parsed as RecordedSession;
+}
+
+function isReplayableAction(action: Action): boolean {
+    return (
+        !action.type.startsWith(miniRxNameSpace + '/') ||
+        isFeatureStoreSetStateAction(action) ||
+        isBatchAction(action)
+    );
+}
+
+function createReplayReducer(reducers: ReducerDictionary<AppState>): Reducer<AppState> {
+    return (state, action) => {
+        if (isFeatureStoreSetStateAction(action)) {
+            return {
+                ...state,
+                [action.featureKey]: calcNewState(state[action.featureKey], action.stateOrCallback),
+            };
+        }
+
+        // Only the existing features: features are added by their (recorded) init action
+        return Object.keys(reducers)
+            .filter((featureKey) => featureKey in state)
+            .reduce((nextState, featureKey) => {
+                const featureState = reducers[featureKey](state[featureKey], action);
+                return featureState === state[featureKey]
+                    ? nextState
+                    : { ...nextState, [featureKey]: featureState };
+            }, state);
+    };
+}
+
+// Other values than plain objects and arrays (e.g. Dates) are compared with `isEqualValue`
+function findDivergentPaths(
+    state: unknown,
+    recordedState: unknown,
+    isEqualValue: (value: unknown, recordedValue: unknown) => boolean,
+    path: string[] = []
+): string[] {
+    if (Object.is(state, recordedState)) {
+        return [];
+    }
+    if (
+        !isPlainObjectOrArray(state) ||
+        !isPlainObjectOrArray(recordedState) ||
+        Array.isArray(state) !== Array.isArray(recordedState)
+    ) {
+        return isEqualValue(state, recordedState) ? [] : [path.join('.')];
+    }
+
+    const record = state as Record<string, unknown>;
+    const recordedRecord = recordedState as Record<string, unknown>;
+    const keys = Array.from(new Set([...Object.keys(record), ...Object.keys(recordedRecord)]));
+
+    return keys.reduce<string[]>(
+        (paths, key) => [
+            ...paths,
+            ...findDivergentPaths(record[key], recordedRecord[key], isEqualValue, [...path, key]),
+        ],
+        []
+    );
+}
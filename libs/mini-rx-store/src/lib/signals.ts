@@ -0,0 +1,75 @@
+import { Observable, Subscription } from 'rxjs';
+import { createSelector, Selector } from './selector';
+import { miniRxError } from './utils';
+
+// A read-only signal: e.g. an Angular Signal
+export type ReadonlySignal<T> = () => T;
+
+export interface WritableSignal<T> extends ReadonlySignal<T> {
+    set(value: T): void;
+}
+
+// The signal primitives of a signal library: e.g. `{ signal, computed }` of Angular (>= 16)
+export interface SignalFunctions {
+    signal<T>(initialValue: T): WritableSignal<T>;
+    computed<T>(computation: () => T): ReadonlySignal<T>;
+}
+
+export type ViewModel<Selectors extends Record<string, Selector<any, unknown>>> = {
+    [Key in keyof Selectors]: ReturnType<Selectors[Key]>;
+};
+
+export type SelectSignalFn<StateType> = <R>(mapFn: (state: StateType) => R) => ReadonlySignal<R>;
+
+let signalFunctions: SignalFunctions | undefined;
+
+// Enables `selectSignal` and `selectViewModel` of Store, FeatureStore and ComponentStore
+// e.g. in Angular: `configureSignals({ signal, computed })`
+export function configureSignals(functions: SignalFunctions): void {
+    signalFunctions = functions;
+}
+
+function getSignalFunctions(): SignalFunctions {
+    if (!signalFunctions) {
+        miniRxError(
+            '`selectSignal` needs a signal library. Please call `configureSignals` first (e.g. `configureSignals({ signal, computed })` with the functions of `@angular/core`).'
+        );
+    }
+    return signalFunctions;
+}
+
+// Creates the `selectSignal` function of a state source: e.g. used by Store, FeatureStore, ComponentStore or MockStore
+// All signals are computed from one state signal: the state source is subscribed only once (on the first call)
+// The subscription is added to `subscription` (e.g. to unsubscribe when a ComponentStore is destroyed)
+export function createSelectSignal<StateType>(
+    state$: Observable<StateType>,
+    subscription = new Subscription()
+): SelectSignalFn<StateType> {
+    let stateSignal: ReadonlySignal<StateType | undefined> | undefined;
+
+    return <R>(mapFn: (state: StateType) => R): ReadonlySignal<R> => {
+        const { signal, computed } = getSignalFunctions();
+
+        if (!stateSignal) {
+            const writableStateSignal = signal<StateType | undefined>(undefined);
+            // `select` emits synchronously: the signal holds the current state right away
+            subscription.add(state$.subscribe((state) => writableStateSignal.set(state)));
+            stateSignal = writableStateSignal;
+        }
+
+        const source = stateSignal;
+        return computed(() => {
+            const state = source();
+            // The selector is not called before the state is initialized (e.g. ComponentStore without initial state)
+            return state === undefined ? (undefined as R) : mapFn(state);
+        });
+    };
+}
+
+// Combines a dictionary of selectors to one memoized view model selector
+export function createViewModelSelector<
+    StateType,
+    Selectors extends Record<string, Selector<StateType, unknown>>
+>(selectors: Selectors): Selector<StateType, ViewModel<Selectors>> {
+    return createSelector(selectors) as Selector<StateType, ViewModel<Selectors>>;
+}
@@ -11,6 +11,7 @@ import { createComponentStateSelector, createSelector } from '../selector';
 import { LoggerExtension } from '../extensions/logger.extension';
 import { ImmutableStateExtension } from '../extensions/immutable-state.extension';
 import { UndoExtension } from '../extensions/undo.extension';
+import { errors$ } from '../default-effects-error-handler';
 import { ComponentStoreExtension, ExtensionId, StoreExtension } from '../models';
 
 describe('ComponentStore', () => {
@@ -414,4 +415,122 @@ describe('ComponentStore', () => {
             expect(cs['extensions'][1]).toBe(globalExtensions[1]);
         });
     });
+
+    it('should batch setState calls', () => {
+        const cs = createComponentStore(counterInitialState);
+        const spy = jest.fn();
+        cs.select((state) => state.counter).subscribe(spy);
+
+        cs.batch(() => {
+            cs.setState((state) => ({ counter: state.counter + 1 }));
+            cs.setState((state) => ({ counter: state.counter + 1 }));
+        });
+
+        expect(spy.mock.calls).toEqual([[1], [3]]);
+    });
+
+    it('should use the effect retries of the config and report errors in errors$', () => {
+        console.error = jest.fn();
+        const apiSpy = jest.fn();
+        const errorSpy = jest.fn();
+        const sub = errors$.subscribe(errorSpy);
+
+        const cs = createComponentStore(counterInitialState, {
+            name: 'CounterCs',
+            effectRetries: 1,
+        });
+        const load = cs.effect<void>(
+            map(() => {
+                apiSpy();
+                throw new Error('API error');
+            })
+        );
+
+        load();
+        load();
+        load();
+
+        expect(apiSpy).toHaveBeenCalledTimes(2); // First time + 1 re-subscription
+        expect(errorSpy).toHaveBeenCalledWith({
+            error: new Error('API error'),
+            storeName: 'CounterCs',
+            effectName: undefined,
+        });
+
+        sub.unsubscribe();
+    });
+
+    it('should emit only the errors of its own effects in errors$ of the ComponentStore', () => {
+        console.error = jest.fn();
+        const cs = createComponentStore(counterInitialState, { effectRetries: 0 });
+        const otherCs = createComponentStore(counterInitialState, { effectRetries: 0 });
+        const errorSpy = jest.fn();
+        const otherErrorSpy = jest.fn();
+        cs.errors$.subscribe(errorSpy);
+        otherCs.errors$.subscribe(otherErrorSpy);
+
+        const load = cs.effect<void>(
+            map(() => {
+                throw new Error('API error');
+            })
+        );
+        load();
+
+        expect(errorSpy).toHaveBeenCalledWith(
+            expect.objectContaining({ error: new Error('API error') })
+        );
+        expect(otherErrorSpy).not.toHaveBeenCalled();
+    });
+
+    describe('interceptors', () => {
+        beforeEach(() => {
+            _resetConfig();
+        });
+
+        it('should run the global interceptors before the local interceptors', () => {
+            const callOrder: string[] = [];
+
+            configureComponentStores({
+                interceptors: [
+                    (action, next) => {
+                        callOrder.push('global');
+                        next(action);
+                    },
+                ],
+            });
+
+            const cs = createComponentStore(counterInitialState, {
+                interceptors: [
+                    (action, next) => {
+                        callOrder.push('local');
+                        next(action);
+                    },
+                ],
+            });
+            cs.setState({ counter: 2 });
+
+            // Init action and setState action
+            expect(callOrder).toEqual(['global', 'local', 'global', 'local']);
+            expect(cs.state).toEqual({ counter: 2 });
+        });
+
+        it('should drop setState actions', () => {
+            const cs = createComponentStore(counterInitialState, {
+                interceptors: [
+                    (action, next, api) => {
+                        // Do not allow decrementing the counter
+                        const nextState = action['stateOrCallback'];
+                        if (!nextState || nextState.counter > api.getState()!.counter) {
+                            next(action);
+                        }
+                    },
+                ],
+            });
+
+            cs.setState({ counter: 2 });
+            cs.setState({ counter: 0 });
+
+            expect(cs.state).toEqual({ counter: 2 });
+        });
+    });
 });
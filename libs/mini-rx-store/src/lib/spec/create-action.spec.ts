@@ -0,0 +1,86 @@
+import { createAction, createActionGroup, emptyProps, props } from '../create-action';
+import { ofType } from '../utils';
+import { createStore } from '../store';
+
+interface Product {
+    id: number;
+    name: string;
+}
+
+describe('createAction', () => {
+    it('should create an action creator without props', () => {
+        const load = createAction('[Products] Load');
+
+        expect(load.type).toBe('[Products] Load');
+        expect(load()).toEqual({ type: '[Products] Load' });
+    });
+
+    it('should create an action creator with props', () => {
+        const loadSuccess = createAction(
+            '[Products] Load Success',
+            props<{ products: Product[] }>()
+        );
+        const action = loadSuccess({ products: [{ id: 1, name: 'Milk' }] });
+
+        // Type check: the action has the literal type and the typed props
+        const type: '[Products] Load Success' = action.type;
+        const products: Product[] = action.products;
+
+        expect(type).toBe('[Products] Load Success');
+        expect(products).toEqual([{ id: 1, name: 'Milk' }]);
+        expect(loadSuccess.type).toBe('[Products] Load Success');
+    });
+});
+
+describe('createActionGroup', () => {
+    const productActions = createActionGroup({
+        source: 'Products',
+        events: {
+            Load: emptyProps(),
+            'Load Success': props<{ products: Product[] }>(),
+            'load fail': props<{ error: string }>(),
+        },
+    });
+
+    it('should create namespaced action creators', () => {
+        expect(productActions.load.type).toBe('[Products] Load');
+        expect(productActions.load()).toEqual({ type: '[Products] Load' });
+
+        expect(productActions.loadSuccess.type).toBe('[Products] Load Success');
+        expect(productActions.loadSuccess({ products: [] })).toEqual({
+            type: '[Products] Load Success',
+            products: [],
+        });
+
+        const failAction = productActions.loadFail({ error: 'Oops' });
+        const type: '[Products] load fail' = failAction.type;
+        expect(type).toBe('[Products] load fail');
+        expect(failAction.error).toBe('Oops');
+    });
+});
+
+describe('ofType with action creators', () => {
+    const increment = createAction('increment', props<{ by: number }>());
+    const reset = createAction('reset');
+
+    it('should filter by action creators and narrow the action type', () => {
+        const store = createStore();
+        const spy = jest.fn();
+
+        store.actions$.pipe(ofType(increment, reset)).subscribe((action) => {
+            if (action.type === increment.type) {
+                // Type check: `by` is available after narrowing by type
+                const by: number = action.by;
+                spy(by);
+            } else {
+                spy(action.type);
+            }
+        });
+
+        store.dispatch(increment({ by: 2 }));
+        store.dispatch({ type: 'other' });
+        store.dispatch(reset());
+
+        expect(spy.mock.calls).toEqual([[2], ['reset']]);
+    });
+});
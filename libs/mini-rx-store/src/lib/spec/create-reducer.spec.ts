@@ -0,0 +1,76 @@
+import { createAction, props } from '../create-action';
+import { createReducer, on } from '../create-reducer';
+import { createStore } from '../store';
+
+interface CounterState {
+    counter: number;
+    lastAction: string;
+}
+
+const initialState: CounterState = {
+    counter: 1,
+    lastAction: '',
+};
+
+const increment = createAction('increment');
+const incrementBy = createAction('incrementBy', props<{ by: number }>());
+const decrement = createAction('decrement');
+const decrementBy = createAction('decrementBy', props<{ by: number }>());
+const reset = createAction('reset');
+
+const counterReducer = createReducer(
+    initialState,
+    on(increment, (state) => ({ ...state, counter: state.counter + 1 })),
+    on(incrementBy, (state, { by }) => ({ ...state, counter: state.counter + by })),
+    on(decrement, decrementBy, (state, action) => ({
+        ...state,
+        // Type check: the action is a union of the action types of both Action Creators
+        counter: state.counter - (action.type === decrementBy.type ? action.by : 1),
+    })),
+    on(reset, () => initialState),
+    on(increment, reset, (state, action) => ({ ...state, lastAction: action.type }))
+);
+
+describe('createReducer', () => {
+    it('should return the initial state', () => {
+        expect(counterReducer(undefined as any, { type: 'unknown' })).toBe(initialState);
+    });
+
+    it('should return the same state for unknown actions', () => {
+        const state: CounterState = { counter: 5, lastAction: '' };
+        expect(counterReducer(state, { type: 'unknown' })).toBe(state);
+    });
+
+    it('should call the state change function of the action', () => {
+        expect(counterReducer(initialState, incrementBy({ by: 10 })).counter).toBe(11);
+    });
+
+    it('should support many Action Creators per `on`', () => {
+        expect(counterReducer(initialState, decrement()).counter).toBe(0);
+        expect(counterReducer(initialState, decrementBy({ by: 3 })).counter).toBe(-2);
+    });
+
+    it('should call all state change functions of an action type in order', () => {
+        expect(counterReducer(initialState, increment())).toEqual({
+            counter: 2,
+            lastAction: 'increment',
+        });
+        expect(counterReducer({ counter: 5, lastAction: '' }, reset())).toEqual({
+            counter: 1,
+            lastAction: 'reset',
+        });
+    });
+
+    it('should work as feature reducer', () => {
+        const store = createStore();
+        store.feature('counter', counterReducer);
+
+        const spy = jest.fn();
+        store.select((state) => state['counter'].counter).subscribe(spy);
+
+        store.dispatch(increment());
+        store.dispatch(incrementBy({ by: 2 }));
+
+        expect(spy.mock.calls).toEqual([[1], [2], [4]]);
+    });
+});
@@ -0,0 +1,258 @@
+import { createEntityAdapter, EntityState } from '../entity-adapter';
+import { createFeatureStore } from '../feature-store';
+import { createFeatureStateSelector } from '../selector';
+import { Action } from '../models';
+import { createStore } from '../store';
+
+interface Todo {
+    id: number;
+    title: string;
+    done?: boolean;
+}
+
+interface TodoState extends EntityState<Todo> {
+    filter: string;
+}
+
+const todo1: Todo = { id: 1, title: 'Write tests' };
+const todo2: Todo = { id: 2, title: 'Buy milk' };
+const todo3: Todo = { id: 3, title: 'Call mum' };
+
+const adapter = createEntityAdapter<Todo>();
+
+describe('Entity Adapter', () => {
+    let initialState: TodoState;
+
+    beforeEach(() => {
+        initialState = adapter.getInitialState({ filter: 'all' });
+    });
+
+    it('should create the initial state', () => {
+        expect(adapter.getInitialState()).toEqual({ ids: [], entities: {} });
+        expect(initialState).toEqual({ ids: [], entities: {}, filter: 'all' });
+    });
+
+    it('should add entities', () => {
+        let state = adapter.addOne(todo1, initialState);
+        state = adapter.addMany([todo2, todo3], state);
+
+        expect(state).toEqual({
+            ids: [1, 2, 3],
+            entities: { 1: todo1, 2: todo2, 3: todo3 },
+            filter: 'all',
+        });
+    });
+
+    it('should not add entities which exist already', () => {
+        const state = adapter.addOne(todo1, initialState);
+
+        expect(adapter.addOne({ id: 1, title: 'Other' }, state)).toBe(state);
+    });
+
+    it('should set all entities', () => {
+        const state = adapter.addMany([todo1, todo2], initialState);
+
+        expect(adapter.setAll([todo3], state)).toEqual({
+            ids: [3],
+            entities: { 3: todo3 },
+            filter: 'all',
+        });
+    });
+
+    it('should set one entity (replace)', () => {
+        const state = adapter.addOne({ ...todo1, done: true }, initialState);
+
+        expect(adapter.setOne(todo1, state).entities[1]).toEqual(todo1);
+    });
+
+    it('should upsert entities', () => {
+        let state = adapter.addOne({ ...todo1, done: true }, initialState);
+        state = adapter.upsertMany([{ id: 1, title: 'Updated' }, todo2], state);
+
+        expect(state).toEqual({
+            ids: [1, 2],
+            entities: { 1: { id: 1, title: 'Updated', done: true }, 2: todo2 },
+            filter: 'all',
+        });
+    });
+
+    it('should update entities', () => {
+        let state = adapter.addMany([todo1, todo2], initialState);
+        state = adapter.updateOne({ id: 1, changes: { done: true } }, state);
+        state = adapter.updateMany([{ id: 2, changes: { title: 'Buy oat milk' } }], state);
+
+        expect(state.entities).toEqual({
+            1: { ...todo1, done: true },
+            2: { ...todo2, title: 'Buy oat milk' },
+        });
+    });
+
+    it('should update the id of an entity', () => {
+        let state = adapter.addMany([todo1, todo2], initialState);
+        state = adapter.updateOne({ id: 1, changes: { id: 10 } }, state);
+
+        expect(state.ids).toEqual([10, 2]);
+        expect(state.entities).toEqual({ 10: { ...todo1, id: 10 }, 2: todo2 });
+    });
+
+    it('should replace the existing entity if the id is changed to an existing id', () => {
+        let state = adapter.addMany([todo1, todo2, todo3], initialState);
+        state = adapter.updateOne({ id: 1, changes: { id: 2, done: true } }, state);
+
+        expect(state.ids).toEqual([2, 3]);
+        expect(state.entities).toEqual({ 2: { ...todo1, id: 2, done: true }, 3: todo3 });
+    });
+
+    it('should return the same state if nothing changed', () => {
+        const state = adapter.addOne(todo1, initialState);
+
+        expect(adapter.updateOne({ id: 99, changes: { done: true } }, state)).toBe(state);
+        expect(adapter.removeOne(99, state)).toBe(state);
+        expect(adapter.map((todo) => todo, state)).toBe(state);
+        expect(adapter.removeAll(initialState)).toBe(initialState);
+    });
+
+    it('should remove entities', () => {
+        let state = adapter.addMany([todo1, todo2, todo3], initialState);
+        state = adapter.removeOne(1, state);
+
+        expect(state.ids).toEqual([2, 3]);
+
+        state = adapter.removeMany([2, 3], state);
+
+        expect(state).toEqual(initialState);
+
+        state = adapter.addMany([todo1, todo2], state);
+
+        expect(adapter.removeAll(state)).toEqual(initialState);
+    });
+
+    it('should map entities', () => {
+        const state = adapter.map(
+            (todo) => (todo.id === 2 ? { ...todo, done: true } : todo),
+            adapter.addMany([todo1, todo2], initialState)
+        );
+
+        expect(state.entities).toEqual({ 1: todo1, 2: { ...todo2, done: true } });
+    });
+
+    it('should use a custom id selector', () => {
+        const titleAdapter = createEntityAdapter<Todo>({ selectId: (todo) => todo.title });
+        const state = titleAdapter.addOne(todo1, titleAdapter.getInitialState());
+
+        expect(state).toEqual({ ids: ['Write tests'], entities: { 'Write tests': todo1 } });
+    });
+
+    it('should sort with a sort comparer', () => {
+        const sortedAdapter = createEntityAdapter<Todo>({
+            sortComparer: (a, b) => a.title.localeCompare(b.title),
+        });
+        let state = sortedAdapter.addMany([todo1, todo2, todo3], sortedAdapter.getInitialState());
+
+        expect(state.ids).toEqual([2, 3, 1]);
+
+        state = sortedAdapter.updateOne({ id: 1, changes: { title: 'A todo' } }, state);
+
+        expect(state.ids).toEqual([1, 2, 3]);
+    });
+
+    describe('Selectors', () => {
+        it('should select from the entity state', () => {
+            const { selectIds, selectEntities, selectAll, selectTotal, selectById } =
+                adapter.getSelectors();
+            const state = adapter.addMany([todo1, todo2], initialState);
+
+            expect(selectIds(state)).toEqual([1, 2]);
+            expect(selectEntities(state)).toEqual({ 1: todo1, 2: todo2 });
+            expect(selectAll(state)).toEqual([todo1, todo2]);
+            expect(selectTotal(state)).toBe(2);
+            expect(selectById(2)(state)).toBe(todo2);
+            expect(selectById(99)(state)).toBe(undefined);
+        });
+
+        it('should select from a parent state', () => {
+            const getTodoFeatureState = createFeatureStateSelector<TodoState>('todos');
+            const { selectAll } = adapter.getSelectors(getTodoFeatureState);
+            const state = { todos: adapter.addMany([todo1, todo2], initialState) };
+
+            expect(selectAll(state)).toEqual([todo1, todo2]);
+        });
+
+        it('should memoize selectAll', () => {
+            const { selectAll } = adapter.getSelectors();
+            const state = adapter.addMany([todo1, todo2], initialState);
+            const stateWithNewFilter = { ...state, filter: 'done' };
+
+            expect(selectAll(state)).toBe(selectAll(stateWithNewFilter));
+        });
+
+        it('should return the same selectById selector per id', () => {
+            const { selectById } = adapter.getSelectors();
+            const state = adapter.addMany([todo1, todo2], initialState);
+
+            expect(selectById(1)).toBe(selectById(1));
+            expect(selectById(1)).not.toBe(selectById(2));
+            const stateWithNewFilter = { ...state, filter: 'done' };
+
+            expect(selectById(1)(state)).toBe(selectById(1)(stateWithNewFilter));
+        });
+
+        it('should keep the selectById selectors of the 100 most recently used ids', () => {
+            const { selectById } = adapter.getSelectors();
+            const selectFirst = selectById(1);
+
+            for (let id = 2; id <= 100; id++) {
+                selectById(id);
+            }
+            expect(selectById(1)).toBe(selectFirst);
+
+            for (let id = 101; id <= 200; id++) {
+                selectById(id);
+            }
+            expect(selectById(1)).not.toBe(selectFirst);
+        });
+    });
+
+    describe('Usage', () => {
+        it('should be usable as FeatureStore.setState callback', () => {
+            const fs = createFeatureStore<TodoState>('entityTodos', initialState, {
+                store: createStore(),
+            });
+
+            fs.setState(adapter.addOne(todo1));
+            fs.setState((state) => adapter.updateOne({ id: 1, changes: { done: true } }, state));
+
+            expect(fs.state).toEqual({
+                ids: [1],
+                entities: { 1: { ...todo1, done: true } },
+                filter: 'all',
+            });
+        });
+
+        it('should be usable inside a reducer', () => {
+            function todoReducer(state: TodoState = initialState, action: Action): TodoState {
+                switch (action.type) {
+                    case 'addTodo':
+                        return adapter.addOne(action['payload'], state);
+                    case 'removeTodo':
+                        return adapter.removeOne(action['payload'], state);
+                    default:
+                        return state;
+                }
+            }
+
+            const store = createStore({ reducers: { todos: todoReducer } });
+            const { selectAll } = adapter.getSelectors(
+                createFeatureStateSelector<TodoState>('todos')
+            );
+            const spy = jest.fn();
+            store.select(selectAll).subscribe(spy);
+
+            store.dispatch({ type: 'addTodo', payload: todo1 });
+            store.dispatch({ type: 'addTodo', payload: todo2 });
+            store.dispatch({ type: 'removeTodo', payload: 1 });
+
+            expect(spy.mock.calls).toEqual([[[]], [[todo1]], [[todo1, todo2]], [[todo2]]]);
+        });
+    });
+});
@@ -0,0 +1,63 @@
+import { toExternalStore } from '../external-store';
+import { createFeatureStore } from '../feature-store';
+import { createComponentStore } from '../component-store';
+import { createStore } from '../store';
+import { counterInitialState, counterReducer, CounterState } from './_spec-helpers';
+
+describe('External Store', () => {
+    it('should provide the snapshot of a FeatureStore', () => {
+        const fs = createFeatureStore<CounterState>('externalCounter', counterInitialState, {
+            store: createStore(),
+        });
+        const externalStore = toExternalStore(fs, (state) => state.counter);
+
+        expect(externalStore.getSnapshot()).toBe(1);
+
+        fs.setState({ counter: 2 });
+        expect(externalStore.getSnapshot()).toBe(2);
+    });
+
+    it('should call the listener immediately and on every snapshot change', () => {
+        const cs = createComponentStore({ counter: 1, label: 'Counter' });
+        const externalStore = toExternalStore(cs, (state) => state.counter);
+        const listener = jest.fn();
+
+        const unsubscribe = externalStore.subscribe(listener);
+        cs.setState({ label: 'Other label' }); // Snapshot did not change
+        cs.setState({ counter: 2 });
+        unsubscribe();
+        cs.setState({ counter: 3 });
+
+        expect(listener.mock.calls).toEqual([[1], [2]]);
+    });
+
+    it('should return stable snapshot references', () => {
+        const cs = createComponentStore({ counter: 1, label: 'Counter' });
+        // The selector creates a new object for every call
+        const externalStore = toExternalStore(cs, (state) => ({ counter: state.counter }));
+        const listener = jest.fn();
+
+        externalStore.subscribe(listener);
+        externalStore.subscribe(listener);
+
+        const snapshot = externalStore.getSnapshot();
+        expect(externalStore.getSnapshot()).toBe(snapshot);
+        expect(listener.mock.calls[0][0]).toBe(snapshot);
+        expect(listener.mock.calls[1][0]).toBe(snapshot);
+
+        cs.setState({ counter: 2 });
+        expect(externalStore.getSnapshot()).not.toBe(snapshot);
+        expect(externalStore.getSnapshot()).toEqual({ counter: 2 });
+    });
+
+    it('should provide the snapshot of the Store', () => {
+        const store = createStore({ reducers: { counter: counterReducer } });
+        const externalStore = toExternalStore(store);
+        const counterStore = toExternalStore(store, (state) => state['counter'].counter);
+
+        store.dispatch({ type: 'counter' });
+
+        expect(externalStore.getSnapshot()).toEqual({ counter: { counter: 2 } });
+        expect(counterStore.getSnapshot()).toBe(2);
+    });
+});
@@ -14,6 +14,7 @@ import {
 import { Action, Reducer } from '../models';
 import { tapResponse } from '../tap-response';
 import { actions$, addMetaReducers } from '../store-core';
+import { createStore, Store } from '../store';
 
 const initialState: UserState = userState;
 
@@ -472,3 +473,84 @@ describe('FeatureStore', () => {
         expect(fs3FeatureKey).toContain('multi-counter-');
     });
 });
+
+describe('FeatureStore bound to a store instance', () => {
+    it('should add the feature state to the given store instance', () => {
+        const isolatedStore = createStore();
+        const fs = createFeatureStore('isolatedFeature', counterInitialState, {
+            store: isolatedStore,
+        });
+
+        const isolatedSpy = jest.fn();
+        const globalSpy = jest.fn();
+        isolatedStore.select((state) => state['isolatedFeature']).subscribe(isolatedSpy);
+        store.select((state) => state['isolatedFeature']).subscribe(globalSpy);
+
+        fs.setState((state) => ({ counter: state.counter + 1 }));
+
+        expect(isolatedSpy.mock.calls).toEqual([[{ counter: 1 }], [{ counter: 2 }]]);
+        expect(globalSpy.mock.calls).toEqual([[undefined]]);
+    });
+
+    it('should allow the same feature key in different store instances', () => {
+        const fs1 = createFeatureStore('sameKey', counterInitialState, { store: createStore() });
+        const fs2 = createFeatureStore('sameKey', counterInitialState, { store: createStore() });
+
+        fs1.setState({ counter: 10 });
+
+        expect(fs1.state).toEqual({ counter: 10 });
+        expect(fs2.state).toEqual({ counter: 1 });
+    });
+
+    it('should remove the feature from the given store instance on destroy', () => {
+        const isolatedStore = createStore();
+        const fs = createFeatureStore('isolatedFeature', counterInitialState, {
+            store: isolatedStore,
+        });
+
+        const spy = jest.fn();
+        isolatedStore.select((state) => state).subscribe(spy);
+
+        fs.destroy();
+
+        expect(spy).toHaveBeenLastCalledWith({});
+    });
+
+    it('should throw for unknown store instances', () => {
+        const fakeStore: Store = {
+            feature: store.feature,
+            select: store.select,
+            selectSignal: store.selectSignal,
+            selectViewModel: store.selectViewModel,
+            dispatch: store.dispatch,
+            dispatchBatch: store.dispatchBatch,
+            batch: store.batch,
+            effect: store.effect,
+            actions$: store.actions$,
+            errors$: store.errors$,
+            exportState: store.exportState,
+            importState: store.importState,
+        };
+        expect(() =>
+            createFeatureStore('unknownStore', counterInitialState, { store: fakeStore })
+        ).toThrowError(
+            '@mini-rx: Unknown store instance. Please use a store created by `createStore`.'
+        );
+    });
+
+    it('should batch setState calls', () => {
+        const batchStore = createStore();
+        const fs = createFeatureStore<CounterState>('batchCounter', counterInitialState, {
+            store: batchStore,
+        });
+        const spy = jest.fn();
+        fs.select((state) => state.counter).subscribe(spy);
+
+        fs.batch(() => {
+            fs.setState((state) => ({ counter: state.counter + 1 }));
+            fs.setState((state) => ({ counter: state.counter + 1 }));
+        });
+
+        expect(spy.mock.calls).toEqual([[1], [3]]);
+    });
+});
@@ -1,8 +1,9 @@
 import { counterReducer, resetStoreConfig, userState } from './_spec-helpers';
-import { LoggerExtension } from '../extensions/logger.extension';
+import { createBufferSink, formatLogEntry, LoggerExtension } from '../extensions/logger.extension';
 import { createFeatureStore } from '../feature-store';
 import { addFeature, configureStore, dispatch } from '../store-core';
 import { createComponentStore } from '../component-store';
+import { createBatchAction } from '../actions';
 
 describe('LoggerExtension', () => {
     console.log = jest.fn();
@@ -57,6 +58,25 @@ describe('LoggerExtension', () => {
             }
         );
     });
+
+    it('should log a batch of actions as one entry', () => {
+        addFeature('counter', counterReducer);
+        (console.log as jest.Mock).mockReset();
+
+        const action = { type: 'counter' };
+
+        dispatch(createBatchAction([action, action]));
+
+        expect(console.log).toHaveBeenCalledTimes(1);
+        expect(console.log).toHaveBeenCalledWith(
+            expect.stringContaining('@mini-rx/batch'),
+            expect.stringContaining('color: #25c2a0'),
+            expect.stringContaining('Action:'),
+            { type: '@mini-rx/batch', payload: [action, action] },
+            expect.stringContaining('State: '),
+            { counter: { counter: 3 } }
+        );
+    });
 });
 
 describe('LoggerExtension with ComponentStore', () => {
@@ -98,3 +118,151 @@ describe('LoggerExtension with ComponentStore', () => {
         );
     });
 });
+
+describe('LoggerExtension options', () => {
+    function createCounterStore(extension: LoggerExtension) {
+        return createComponentStore({ counter: 1, label: 'Counter' }, { extensions: [extension] });
+    }
+
+    it('should log to a buffer sink', () => {
+        const sink = createBufferSink();
+        const cs = createCounterStore(new LoggerExtension({ sink }));
+
+        cs.setState({ counter: 2 }, 'increment');
+
+        expect(sink.entries.map((entry) => entry.action.type)).toEqual([
+            '@mini-rx/component-store/init',
+            '@mini-rx/component-store/set-state/increment',
+        ]);
+        expect(sink.entries[1]).toEqual(
+            expect.objectContaining({
+                prevState: { counter: 1, label: 'Counter' },
+                nextState: { counter: 2, label: 'Counter' },
+                duration: expect.any(Number),
+            })
+        );
+
+        sink.clear();
+        expect(sink.entries).toEqual([]);
+    });
+
+    it('should keep the latest entries in the buffer sink', () => {
+        const sink = createBufferSink(2);
+        const cs = createCounterStore(new LoggerExtension({ sink }));
+
+        cs.setState({ counter: 2 }, 'first');
+        cs.setState({ counter: 3 }, 'second');
+
+        expect(sink.entries.map((entry) => entry.nextState.counter)).toEqual([2, 3]);
+    });
+
+    it('should filter by action type and predicate', () => {
+        const sink = createBufferSink();
+        const cs = createCounterStore(
+            new LoggerExtension({
+                sink,
+                actionTypes: [
+                    '@mini-rx/component-store/set-state/increment',
+                    '@mini-rx/component-store/set-state/reset',
+                ],
+                predicate: (action, state) => state.counter > 0,
+            })
+        );
+
+        cs.setState({ counter: 2 }, 'increment');
+        cs.setState({ label: 'Other' }, 'label');
+        cs.setState({ counter: 0 }, 'reset');
+
+        expect(sink.entries.map((entry) => entry.action.type)).toEqual([
+            '@mini-rx/component-store/set-state/increment',
+        ]);
+    });
+
+    it('should filter by feature key', () => {
+        resetStoreConfig();
+        const sink = createBufferSink();
+        configureStore({ extensions: [new LoggerExtension({ sink, featureKeys: ['counter'] })] });
+
+        addFeature('counter', counterReducer);
+        addFeature('otherCounter', counterReducer);
+        sink.clear();
+
+        dispatch({ type: 'counter' }); // Both features change
+        createFeatureStore('counterFs', { counter: 1 }).setState({ counter: 2 });
+
+        expect(sink.entries.map((entry) => entry.action.type)).toEqual(['counter']);
+    });
+
+    it('should calculate the state diff', () => {
+        const sink = createBufferSink();
+        const cs = createCounterStore(new LoggerExtension({ sink, diff: true }));
+
+        cs.setState({ counter: 2 });
+
+        expect(sink.entries[1].diff).toEqual([{ path: 'counter', prev: 1, next: 2 }]);
+    });
+
+    it('should log collapsed groups with previous state, diff and timing', () => {
+        const groupSpy = jest.spyOn(console, 'groupCollapsed').mockImplementation(() => undefined);
+        const groupEndSpy = jest.spyOn(console, 'groupEnd').mockImplementation(() => undefined);
+        console.log = jest.fn();
+
+        const cs = createCounterStore(
+            new LoggerExtension({ collapsed: true, prevState: true, diff: true, timing: true })
+        );
+        cs.setState({ counter: 2 });
+
+        expect(groupSpy).toHaveBeenLastCalledWith(
+            expect.stringMatching(/^%c@mini-rx\/component-store\/set-state \(\d+\.\d{2} ms\)$/),
+            'color: #25c2a0'
+        );
+        expect(console.log).toHaveBeenLastCalledWith(
+            '\nPrev State: ',
+            { counter: 1, label: 'Counter' },
+            '\nAction:',
+            { type: '@mini-rx/component-store/set-state', payload: { counter: 2 } },
+            '\nState: ',
+            { counter: 2, label: 'Counter' },
+            '\nDiff: ',
+            [{ path: 'counter', prev: 1, next: 2 }]
+        );
+        expect(groupEndSpy).toHaveBeenCalledTimes(2);
+
+        groupSpy.mockRestore();
+        groupEndSpy.mockRestore();
+    });
+
+    it('should log plain text', () => {
+        console.log = jest.fn();
+
+        const cs = createCounterStore(new LoggerExtension({ plainText: true }));
+        cs.setState(() => ({ counter: 2 }), 'increment');
+
+        expect(console.log).toHaveBeenLastCalledWith(
+            '@mini-rx/component-store/set-state/increment\n' +
+                'Action: {"type":"@mini-rx/component-store/set-state/increment","payload":"[Function]"}\n' +
+                'State: {"counter":2,"label":"Counter"}'
+        );
+    });
+
+    it('should format a log entry as plain text', () => {
+        expect(
+            formatLogEntry(
+                {
+                    action: { type: 'increment' },
+                    prevState: { counter: 1 },
+                    nextState: { counter: 2 },
+                    duration: 1.234,
+                    diff: [{ path: 'counter', prev: 1, next: 2 }],
+                },
+                { prevState: true, timing: true }
+            )
+        ).toBe(
+            'increment (1.23 ms)\n' +
+                'Prev State: {"counter":1}\n' +
+                'Action: {"type":"increment"}\n' +
+                'State: {"counter":2}\n' +
+                'Diff: [{"path":"counter","prev":1,"next":2}]'
+        );
+    });
+});
@@ -0,0 +1,189 @@
+import { PerformanceExtension } from '../extensions/performance.extension';
+import { Action } from '../models';
+import { createStore } from '../store';
+import { createFeatureStore } from '../feature-store';
+import { createComponentStore } from '../component-store';
+
+// Fake clock: the reducers advance the time by the duration of the action
+let time = 0;
+const clock = () => time;
+
+function counterReducer(state = { counter: 1 }, action: Action) {
+    if (action.type === 'increment') {
+        time += action['duration'];
+        return { counter: state.counter + 1 };
+    }
+    return state;
+}
+
+function increment(duration: number): Action {
+    return { type: 'increment', duration };
+}
+
+describe('PerformanceExtension', () => {
+    let extension: PerformanceExtension;
+    let warnSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+        time = 0;
+        extension = new PerformanceExtension({ clock, budget: 10, topOffendersCount: 2 });
+        warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        warnSpy.mockRestore();
+    });
+
+    it('should calculate the stats per action type', () => {
+        const store = createStore({
+            reducers: { counter: counterReducer },
+            extensions: [extension],
+        });
+
+        [1, 2, 3, 4, 5, 6, 7, 8, 9, 10].forEach((duration) => store.dispatch(increment(duration)));
+
+        const stats = extension.getStats();
+        expect(stats.actions['increment']).toEqual({
+            count: 10,
+            max: 10,
+            p50: 5,
+            p90: 9,
+            p99: 10,
+        });
+        expect(stats.topOffenders).toEqual([
+            { actionType: 'increment', duration: 10 },
+            { actionType: 'increment', duration: 9 },
+        ]);
+    });
+
+    it('should calculate the stats per feature key', () => {
+        const store = createStore({
+            reducers: { counter: counterReducer, otherCounter: (state = { counter: 1 }) => state },
+            extensions: [extension],
+        });
+        const fs = createFeatureStore('counterFs', { counter: 1 }, { store });
+
+        store.dispatch(increment(4));
+        fs.setState({ counter: 2 });
+
+        const stats = extension.getStats();
+        // Store init, feature init, increment and setState
+        expect(stats.features['counter']).toEqual({ count: 4, max: 4, p50: 0, p90: 4, p99: 4 });
+        expect(stats.features['otherCounter'].count).toBe(4);
+        // Feature init, increment and setState
+        expect(stats.features['counterFs'].count).toBe(3);
+    });
+
+    it('should measure feature reducers which return the same state', () => {
+        const store = createStore({
+            reducers: {
+                slowLookup: (state = { counter: 1 }, action: Action) => {
+                    if (action.type === 'lookup') {
+                        time += 20;
+                    }
+                    return state;
+                },
+            },
+            extensions: [extension],
+        });
+
+        store.dispatch({ type: 'lookup' });
+
+        expect(extension.getStats().features['slowLookup'].max).toBe(20);
+    });
+
+    it('should use the name of a ComponentStore as feature key', () => {
+        const cs = createComponentStore(
+            { counter: 1 },
+            { name: 'CounterStore', extensions: [extension] }
+        );
+
+        cs.setState({ counter: 2 });
+
+        expect(extension.getStats().features['CounterStore'].count).toBe(2); // Init and setState
+    });
+
+    it('should keep a rolling window', () => {
+        extension = new PerformanceExtension({ clock, windowSize: 2 });
+        const store = createStore({
+            reducers: { counter: counterReducer },
+            extensions: [extension],
+        });
+
+        [9, 1, 2].forEach((duration) => store.dispatch(increment(duration)));
+
+        expect(extension.getStats().actions['increment']).toEqual({
+            count: 2,
+            max: 2,
+            p50: 1,
+            p90: 2,
+            p99: 2,
+        });
+    });
+
+    it('should warn if the budget is exceeded', () => {
+        const store = createStore({
+            reducers: { counter: counterReducer },
+            extensions: [extension],
+        });
+
+        store.dispatch(increment(10));
+        expect(warnSpy).not.toHaveBeenCalled();
+
+        store.dispatch(increment(12.5));
+        expect(warnSpy).toHaveBeenCalledWith(
+            '@mini-rx: Action "increment" exceeded the reducer budget of 10 ms (took 12.50 ms).'
+        );
+    });
+
+    it('should reset the stats', () => {
+        const store = createStore({
+            reducers: { counter: counterReducer },
+            extensions: [extension],
+        });
+        store.dispatch(increment(1));
+
+        extension.resetStats();
+
+        expect(extension.getStats()).toEqual({ actions: {}, features: {}, topOffenders: [] });
+    });
+
+    it('should measure every feature reducer individually', () => {
+        const store = createStore({
+            reducers: { counter: counterReducer, otherCounter: counterReducer },
+            extensions: [extension],
+        });
+        const fs = createFeatureStore('counterFs', { counter: 1 }, { store });
+
+        store.dispatch(increment(3)); // Both counter reducers take 3 ms
+        fs.setState({ counter: 2 });
+
+        const stats = extension.getStats();
+        expect(stats.actions['increment'].max).toBe(6);
+        expect(stats.features['counter'].max).toBe(3);
+        expect(stats.features['otherCounter'].max).toBe(3);
+        expect(stats.features['counterFs'].max).toBe(0);
+    });
+
+    it('should emit the stats on subscribe and then at most once per stats interval', () => {
+        jest.useFakeTimers();
+        extension = new PerformanceExtension({ clock, statsInterval: 100 });
+        const store = createStore({
+            reducers: { counter: counterReducer },
+            extensions: [extension],
+        });
+        const spy = jest.fn();
+        extension.stats$.subscribe(spy);
+        expect(spy).toHaveBeenCalledTimes(1);
+
+        store.dispatch(increment(1));
+        store.dispatch(increment(2));
+        expect(spy).toHaveBeenCalledTimes(1); // Not emitted inside the reducers
+
+        jest.advanceTimersByTime(100);
+        expect(spy).toHaveBeenCalledTimes(2);
+        expect(spy.mock.calls[1][0].actions['increment'].count).toBe(2);
+
+        jest.useRealTimers();
+    });
+});
@@ -0,0 +1,267 @@
+import {
+    createInMemoryStorage,
+    PersistStateExtension,
+    PersistStorage,
+} from '../extensions/persist-state.extension';
+import { createStore } from '../store';
+import { createFeatureStore } from '../feature-store';
+import { createComponentStore } from '../component-store';
+import { counterInitialState, counterReducer, CounterState } from './_spec-helpers';
+
+const storageKey = 'persist-test';
+
+function getPersisted(storage: PersistStorage, key = storageKey): any {
+    return JSON.parse(storage.getItem(key) as string);
+}
+
+function setPersisted(storage: PersistStorage, state: any, version = 0) {
+    storage.setItem(storageKey, JSON.stringify({ version, state }));
+}
+
+describe('PersistStateExtension', () => {
+    let storage: PersistStorage;
+
+    beforeEach(() => {
+        storage = createInMemoryStorage();
+    });
+
+    describe('Redux Store', () => {
+        it('should persist the selected feature keys', () => {
+            const store = createStore({
+                reducers: { counter: counterReducer, notPersisted: counterReducer },
+                extensions: [new PersistStateExtension({ storage, storageKey, keys: ['counter'] })],
+            });
+
+            store.dispatch({ type: 'counter' });
+
+            expect(getPersisted(storage)).toEqual({
+                version: 0,
+                state: { counter: { counter: 2 } },
+            });
+        });
+
+        it('should rehydrate the state of root reducers with the init action', () => {
+            setPersisted(storage, { counter: { counter: 42 } });
+
+            const store = createStore({
+                reducers: { counter: counterReducer },
+                extensions: [new PersistStateExtension({ storage, storageKey })],
+            });
+
+            const spy = jest.fn();
+            store.select((state) => state['counter']).subscribe(spy);
+
+            expect(spy.mock.calls).toEqual([[{ counter: 42 }]]);
+        });
+
+        it('should rehydrate lazily added features with their init action', () => {
+            setPersisted(storage, { lazyFeature: { counter: 42 } });
+
+            const store = createStore({
+                extensions: [new PersistStateExtension({ storage, storageKey })],
+            });
+
+            store.dispatch({ type: 'someAction' });
+
+            // The persisted state of the feature which is not yet added must not get lost
+            expect(getPersisted(storage).state).toEqual({ lazyFeature: { counter: 42 } });
+
+            const fs = createFeatureStore('lazyFeature', counterInitialState, { store });
+
+            expect(fs.state).toEqual({ counter: 42 });
+        });
+
+        it('should merge the persisted state into the initial feature state', () => {
+            setPersisted(storage, { feature: { counter: 42 } });
+
+            const store = createStore({
+                extensions: [new PersistStateExtension({ storage, storageKey })],
+            });
+            const fs = createFeatureStore('feature', { counter: 1, newProp: 'new' }, { store });
+
+            expect(fs.state).toEqual({ counter: 42, newProp: 'new' });
+        });
+
+        it('should throttle writes', () => {
+            jest.useFakeTimers();
+
+            const setItemSpy = jest.spyOn(storage, 'setItem');
+
+            const store = createStore({
+                reducers: { counter: counterReducer },
+                extensions: [new PersistStateExtension({ storage, storageKey, throttleTime: 100 })],
+            });
+
+            store.dispatch({ type: 'counter' });
+            store.dispatch({ type: 'counter' });
+            store.dispatch({ type: 'counter' });
+
+            expect(setItemSpy).not.toHaveBeenCalled();
+
+            jest.advanceTimersByTime(100);
+
+            expect(setItemSpy).toHaveBeenCalledTimes(1);
+            expect(getPersisted(storage).state).toEqual({ counter: { counter: 4 } });
+
+            jest.useRealTimers();
+        });
+
+        it('should rehydrate from an async storage', async () => {
+            const asyncStorage: PersistStorage = {
+                getItem: () =>
+                    Promise.resolve(
+                        JSON.stringify({ version: 0, state: { counter: { counter: 42 } } })
+                    ),
+                setItem: jest.fn(() => Promise.resolve()),
+            };
+
+            const store = createStore({
+                reducers: { counter: counterReducer },
+                extensions: [new PersistStateExtension({ storage: asyncStorage, storageKey })],
+            });
+
+            const spy = jest.fn();
+            store.select((state) => state['counter']).subscribe(spy);
+
+            // Do not overwrite the persisted state before it is loaded
+            expect(asyncStorage.setItem).not.toHaveBeenCalled();
+
+            await Promise.resolve();
+
+            expect(spy.mock.calls).toEqual([[{ counter: 1 }], [{ counter: 42 }]]);
+        });
+
+        it('should run migrations for older persisted versions', () => {
+            setPersisted(storage, { counter: { count: 42 } }, 1);
+
+            const store = createStore({
+                reducers: { counter: counterReducer },
+                extensions: [
+                    new PersistStateExtension({
+                        storage,
+                        storageKey,
+                        version: 3,
+                        migrations: {
+                            1: () => {
+                                throw new Error('Should not run');
+                            },
+                            2: (state) => ({ counter: { counter: state.counter.count } }),
+                            3: (state) => ({ counter: { counter: state.counter.counter + 1 } }),
+                        },
+                    }),
+                ],
+            });
+
+            const spy = jest.fn();
+            store.select((state) => state['counter']).subscribe(spy);
+
+            expect(spy).toHaveBeenCalledWith({ counter: 43 });
+            expect(getPersisted(storage).version).toBe(3);
+        });
+
+        it('should ignore persisted state with a newer version', () => {
+            setPersisted(storage, { counter: { counter: 42 } }, 2);
+
+            const store = createStore({
+                reducers: { counter: counterReducer },
+                extensions: [new PersistStateExtension({ storage, storageKey, version: 1 })],
+            });
+
+            const spy = jest.fn();
+            store.select((state) => state['counter']).subscribe(spy);
+
+            expect(spy).toHaveBeenCalledWith(counterInitialState);
+        });
+
+        it('should ignore invalid persisted state', () => {
+            console.error = jest.fn();
+            storage.setItem(storageKey, '{invalid');
+
+            const store = createStore({
+                reducers: { counter: counterReducer },
+                extensions: [new PersistStateExtension({ storage, storageKey })],
+            });
+
+            const spy = jest.fn();
+            store.select((state) => state['counter']).subscribe(spy);
+
+            expect(spy).toHaveBeenCalledWith(counterInitialState);
+            expect(console.error).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('Component Store', () => {
+        it('should persist and rehydrate the Component Store state', () => {
+            const cs = createComponentStore<CounterState>(counterInitialState, {
+                extensions: [new PersistStateExtension({ storage, storageKey })],
+            });
+            cs.setState({ counter: 42 });
+
+            expect(getPersisted(storage, storageKey + '/ComponentStore').state).toEqual({
+                counter: 42,
+            });
+
+            const cs2 = createComponentStore<CounterState>(counterInitialState, {
+                extensions: [new PersistStateExtension({ storage, storageKey })],
+            });
+
+            expect(cs2.state).toEqual({ counter: 42 });
+        });
+
+        it('should persist every Component Store in its own storage item', () => {
+            const extension = new PersistStateExtension({ storage, storageKey });
+            const todoFilterCs = createComponentStore(
+                { filter: 'all' },
+                { name: 'TodoFilter', extensions: [extension] }
+            );
+            const userFilterCs = createComponentStore(
+                { filter: 'all' },
+                { name: 'UserFilter', extensions: [extension] }
+            );
+
+            todoFilterCs.setState({ filter: 'done' });
+            userFilterCs.setState({ filter: 'admins' });
+
+            expect(getPersisted(storage, storageKey + '/TodoFilter').state).toEqual({
+                filter: 'done',
+            });
+            expect(getPersisted(storage, storageKey + '/UserFilter').state).toEqual({
+                filter: 'admins',
+            });
+
+            todoFilterCs.destroy();
+            const todoFilterCs2 = createComponentStore(
+                { filter: 'all' },
+                { name: 'TodoFilter', extensions: [extension] }
+            );
+            expect(todoFilterCs2.state).toEqual({ filter: 'done' });
+        });
+
+        it('should throw if Component Stores share the storage item', () => {
+            const extension = new PersistStateExtension({ storage, storageKey });
+            createComponentStore(counterInitialState, { extensions: [extension] });
+
+            expect(() =>
+                createComponentStore(counterInitialState, { extensions: [extension] })
+            ).toThrowError(
+                'The storage key "persist-test/ComponentStore" is used by another Component Store.'
+            );
+        });
+
+        it('should persist only the selected keys', () => {
+            const cs = createComponentStore(
+                { counter: 1, notPersisted: 1 },
+                {
+                    extensions: [
+                        new PersistStateExtension({ storage, storageKey, keys: ['counter'] }),
+                    ],
+                }
+            );
+            cs.setState({ counter: 2, notPersisted: 2 });
+
+            expect(getPersisted(storage, storageKey + '/ComponentStore').state).toEqual({
+                counter: 2,
+            });
+        });
+    });
+});
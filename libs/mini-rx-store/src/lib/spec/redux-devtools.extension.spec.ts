@@ -1,13 +1,26 @@
 import {
+    DevToolsMessage,
+    ReduxDevtoolsConnection,
     ReduxDevtoolsExtension,
     ReduxDevtoolsOptions,
 } from '../extensions/redux-devtools.extension';
 import { Action } from '../models';
-import { counterReducer, CounterState, store, userState, UserState } from './_spec-helpers';
+import {
+    counterInitialState,
+    counterReducer,
+    CounterState,
+    store,
+    userState,
+    UserState,
+} from './_spec-helpers';
 import { createFeatureStore, FeatureStore } from '../feature-store';
 import { addExtension, appState } from '../store-core';
+import { createStore, Store } from '../store';
+import { ComponentStore, createComponentStore } from '../component-store';
+import { UndoExtension } from '../extensions/undo.extension';
 
 const win = window as any;
+const originalJsonParse = JSON.parse;
 JSON.parse = jest.fn().mockImplementationOnce((data) => {
     return data;
 });
@@ -100,7 +113,9 @@ describe('Redux DevTools', () => {
     it('should update the Store state', () => {
         const spy = jest.spyOn(appState, 'set');
 
-        extension['onDevToolsMessage']({
+        const onDevToolsMessage = subscribeFn.mock.calls[0][0];
+
+        onDevToolsMessage({
             type: 'DISPATCH',
             payload: {
                 type: 'JUMP_TO_STATE',
@@ -113,7 +128,7 @@ describe('Redux DevTools', () => {
 
         spy.mockReset();
 
-        extension['onDevToolsMessage']({
+        onDevToolsMessage({
             type: 'NOT_SUPPORTED_TYPE',
             payload: {},
             state: {},
@@ -121,4 +136,333 @@ describe('Redux DevTools', () => {
 
         expect(spy).toHaveBeenCalledTimes(0);
     });
+
+    describe('DevTools Protocol', () => {
+        let connection: jest.Mocked<ReduxDevtoolsConnection>;
+        let sendMessage: (message: DevToolsMessage) => void;
+        let devToolsStore: Store;
+        let counterSpy: jest.Mock;
+
+        function dispatchFromMonitor(payload: Record<string, any>, state?: any) {
+            sendMessage({ type: 'DISPATCH', payload, state });
+        }
+
+        // The DevTools replace their lifted state if the action is `null`
+        function getLiftedState(): any {
+            const liftedStateCalls = connection.send.mock.calls.filter(
+                ([action]) => action === null
+            );
+            return liftedStateCalls[liftedStateCalls.length - 1][1];
+        }
+
+        beforeAll(() => {
+            JSON.parse = originalJsonParse;
+        });
+
+        beforeEach(() => {
+            connection = {
+                subscribe: jest.fn((listener) => {
+                    sendMessage = listener;
+                }),
+                send: jest.fn(),
+            };
+            win.__REDUX_DEVTOOLS_EXTENSION__ = { connect: () => connection };
+
+            devToolsStore = createStore({
+                reducers: { counter: counterReducer },
+                extensions: [new ReduxDevtoolsExtension({})],
+            });
+
+            counterSpy = jest.fn();
+            devToolsStore.select((state) => state['counter'].counter).subscribe(counterSpy);
+
+            devToolsStore.dispatch(action);
+            devToolsStore.dispatch(action);
+            counterSpy.mockReset();
+        });
+
+        it('should skip an action and recompute the following states', () => {
+            // Action ids: 0 (init action), 1 and 2 (counter actions)
+            const firstCounterActionId = 1;
+
+            dispatchFromMonitor({ type: 'TOGGLE_ACTION', id: firstCounterActionId });
+
+            expect(counterSpy).toHaveBeenLastCalledWith(2);
+            expect(getLiftedState().skippedActionIds).toEqual([firstCounterActionId]);
+            expect(getLiftedState().computedStates.map((s: any) => s.state.counter)).toEqual([
+                { counter: 1 },
+                { counter: 1 },
+                { counter: 2 },
+            ]);
+
+            dispatchFromMonitor({ type: 'TOGGLE_ACTION', id: firstCounterActionId });
+
+            expect(counterSpy).toHaveBeenLastCalledWith(3);
+            expect(getLiftedState().skippedActionIds).toEqual([]);
+        });
+
+        it('should not replay the toggled actions through the other extensions', () => {
+            devToolsStore = createStore({
+                extensions: [new ReduxDevtoolsExtension({}), new UndoExtension()],
+            });
+            const counterFs = createFeatureStore(
+                'undoCounter',
+                { count: 0 },
+                { store: devToolsStore }
+            );
+            counterFs.setState((state) => ({ count: state.count + 1 }));
+            counterFs.setState((state) => ({ count: state.count + 1 }));
+
+            const historySpy = jest.fn();
+            counterFs.history$.subscribe(historySpy);
+
+            // Action ids: 0 (init action), 1 (feature init action), 2 and 3 (setState actions)
+            dispatchFromMonitor({ type: 'TOGGLE_ACTION', id: 2 });
+
+            expect(counterFs.state).toEqual({ count: 1 });
+            expect(historySpy).toHaveBeenLastCalledWith(
+                expect.objectContaining({ past: [expect.any(Array), expect.any(Array)] })
+            );
+        });
+
+        it('should send a batch as one action', () => {
+            connection.send.mockReset();
+
+            devToolsStore.dispatchBatch([action, action]);
+
+            expect(connection.send.mock.calls).toEqual([
+                [
+                    { type: '@mini-rx/batch', payload: [action, action] },
+                    { counter: { counter: 5 } },
+                ],
+            ]);
+        });
+
+        it('should commit the current state', () => {
+            dispatchFromMonitor({ type: 'COMMIT' });
+
+            expect(getLiftedState()).toEqual(
+                expect.objectContaining({
+                    stagedActionIds: [0],
+                    committedState: { counter: { counter: 3 } },
+                })
+            );
+
+            devToolsStore.dispatch(action);
+            dispatchFromMonitor({ type: 'ROLLBACK' });
+
+            expect(counterSpy.mock.calls).toEqual([[4], [3]]);
+        });
+
+        it('should reset to the initial state', () => {
+            dispatchFromMonitor({ type: 'COMMIT' });
+            dispatchFromMonitor({ type: 'RESET' });
+
+            expect(counterSpy).toHaveBeenLastCalledWith(1);
+            expect(getLiftedState().stagedActionIds).toEqual([0]);
+        });
+
+        it('should import the lifted state', () => {
+            dispatchFromMonitor({
+                type: 'IMPORT_STATE',
+                nextLiftedState: {
+                    actionsById: { 0: { type: 'PERFORM_ACTION', action: { type: '@@INIT' } } },
+                    stagedActionIds: [0],
+                    skippedActionIds: [],
+                    computedStates: [{ state: { counter: { counter: 42 } } }],
+                    currentStateIndex: 0,
+                },
+            });
+
+            expect(counterSpy).toHaveBeenLastCalledWith(42);
+            expect(getLiftedState().computedStates).toEqual([
+                { state: { counter: { counter: 42 } } },
+            ]);
+        });
+
+        it('should not record actions while paused', () => {
+            dispatchFromMonitor({ type: 'PAUSE_RECORDING', status: true });
+            connection.send.mockReset();
+
+            devToolsStore.dispatch(action);
+
+            expect(counterSpy).toHaveBeenLastCalledWith(4);
+            expect(connection.send).not.toHaveBeenCalled();
+
+            dispatchFromMonitor({ type: 'PAUSE_RECORDING', status: false });
+
+            expect(getLiftedState().stagedActionIds.length).toBe(3);
+            expect(getLiftedState().computedStates[2].state).toEqual({
+                counter: { counter: 4 },
+            });
+        });
+
+        it('should ignore state changes while locked', () => {
+            dispatchFromMonitor({ type: 'LOCK_CHANGES', status: true });
+
+            devToolsStore.dispatch(action);
+            sendMessage({ type: 'ACTION', payload: '{ "type": "counter" }' });
+
+            expect(counterSpy).not.toHaveBeenCalled();
+            expect(getLiftedState().isLocked).toBe(true);
+        });
+
+        it('should dispatch actions from the DevTools', () => {
+            console.error = jest.fn();
+
+            sendMessage({ type: 'ACTION', payload: '{ "type": "counter" }' });
+            sendMessage({ type: 'ACTION', payload: { type: 'counter' } });
+            sendMessage({ type: 'ACTION', payload: '{ type: counter }' });
+
+            expect(counterSpy.mock.calls).toEqual([[4], [5]]);
+            expect(console.error).toHaveBeenCalledTimes(1);
+        });
+
+        it('should update the current state index when jumping', () => {
+            dispatchFromMonitor(
+                { type: 'JUMP_TO_ACTION', actionId: 1 },
+                JSON.stringify({ counter: { counter: 2 } })
+            );
+            dispatchFromMonitor({ type: 'TOGGLE_ACTION', id: 2 });
+
+            // The state of the jumped to action is restored
+            expect(counterSpy.mock.calls).toEqual([[2]]);
+        });
+    });
+
+    describe('ComponentStore', () => {
+        let connections: jest.Mocked<ReduxDevtoolsConnection>[];
+        let connect: jest.Mock;
+
+        beforeAll(() => {
+            JSON.parse = originalJsonParse;
+        });
+
+        beforeEach(() => {
+            connections = [];
+            connect = jest.fn(() => {
+                const connection = { subscribe: jest.fn(), send: jest.fn() };
+                connections.push(connection);
+                return connection;
+            });
+            win.__REDUX_DEVTOOLS_EXTENSION__ = { connect };
+        });
+
+        it('should connect every ComponentStore as a DevTools instance', () => {
+            const extension = new ReduxDevtoolsExtension({ name: 'Test' });
+
+            class CounterStore extends ComponentStore<CounterState> {
+                constructor() {
+                    super(counterInitialState, { extensions: [extension] });
+                }
+            }
+
+            new CounterStore();
+            createComponentStore(counterInitialState, {
+                name: 'Todos',
+                extensions: [extension],
+            });
+
+            expect(connect.mock.calls).toEqual([
+                [expect.objectContaining({ name: 'Test (CounterStore)' })],
+                [expect.objectContaining({ name: 'Test (Todos)' })],
+            ]);
+        });
+
+        it('should send the actions and state of the ComponentStore', () => {
+            const cs = createComponentStore(counterInitialState, {
+                extensions: [new ReduxDevtoolsExtension({})],
+            });
+            cs.setState({ counter: 2 }, 'increment');
+
+            expect(connections[0].send.mock.calls).toEqual([
+                [{ type: '@mini-rx/component-store/init' }, counterInitialState],
+                [
+                    {
+                        type: '@mini-rx/component-store/set-state/increment',
+                        payload: { counter: 2 },
+                    },
+                    { counter: 2 },
+                ],
+            ]);
+        });
+
+        it('should time travel and skip actions in the ComponentStore', () => {
+            const cs = createComponentStore(counterInitialState, {
+                extensions: [new ReduxDevtoolsExtension({})],
+            });
+            const onDevToolsMessage = connections[0].subscribe.mock.calls[0][0];
+
+            cs.setState((state) => ({ counter: state.counter + 1 }));
+            cs.setState((state) => ({ counter: state.counter + 1 }));
+
+            onDevToolsMessage({
+                type: 'DISPATCH',
+                payload: { type: 'JUMP_TO_STATE', actionId: 1 },
+                state: JSON.stringify({ counter: 2 }),
+            });
+
+            expect(cs.state).toEqual({ counter: 2 });
+
+            onDevToolsMessage({
+                type: 'DISPATCH',
+                payload: { type: 'JUMP_TO_STATE', actionId: 2 },
+                state: JSON.stringify({ counter: 3 }),
+            });
+            onDevToolsMessage({ type: 'DISPATCH', payload: { type: 'TOGGLE_ACTION', id: 1 } });
+
+            // The setState callback of the second action is recomputed
+            expect(cs.state).toEqual({ counter: 2 });
+        });
+
+        it('should not replay the toggled actions through the UndoExtension of the ComponentStore', () => {
+            const cs = createComponentStore(counterInitialState, {
+                extensions: [new ReduxDevtoolsExtension({}), new UndoExtension()],
+            });
+            const onDevToolsMessage = connections[0].subscribe.mock.calls[0][0];
+            cs.setState((state) => ({ counter: state.counter + 1 }));
+            cs.setState((state) => ({ counter: state.counter + 1 }));
+
+            onDevToolsMessage({ type: 'DISPATCH', payload: { type: 'TOGGLE_ACTION', id: 1 } });
+            expect(cs.state).toEqual({ counter: 2 });
+
+            // The undo history still contains the two setState actions
+            cs.undoLast(2);
+            expect(cs.state).toEqual(counterInitialState);
+        });
+
+        it('should disconnect the DevTools instance when the ComponentStore is destroyed', () => {
+            const removeListener = jest.fn();
+            let onDevToolsMessage: (message: DevToolsMessage) => void = () => undefined;
+            const connection = {
+                subscribe: jest.fn((listener: (message: DevToolsMessage) => void) => {
+                    onDevToolsMessage = listener;
+                    return removeListener;
+                }),
+                unsubscribe: jest.fn(),
+                send: jest.fn(),
+            };
+            connect.mockImplementation(() => connection);
+
+            const cs = createComponentStore(counterInitialState, {
+                extensions: [new ReduxDevtoolsExtension({})],
+            });
+
+            cs.destroy();
+
+            expect(removeListener).toHaveBeenCalledTimes(1);
+            expect(connection.unsubscribe).toHaveBeenCalledTimes(1);
+            // The destroy action is still sent
+            expect(connection.send).toHaveBeenLastCalledWith(
+                { type: '@mini-rx/component-store/destroy' },
+                counterInitialState
+            );
+
+            connection.send.mockReset();
+            onDevToolsMessage({ type: 'DISPATCH', payload: { type: 'COMMIT' } });
+            cs.setState({ counter: 5 });
+
+            expect(connection.send).not.toHaveBeenCalled();
+        });
+    });
 });
@@ -0,0 +1,270 @@
+import {
+    createInMemoryDevtoolsServer,
+    createWebSocketTransport,
+    RemoteDevtoolsExtension,
+    WebSocketLike,
+} from '../extensions/remote-devtools.extension';
+import { Action } from '../models';
+import { createStore, Store } from '../store';
+import { createComponentStore } from '../component-store';
+import { createFeatureStore } from '../feature-store';
+import { createSerializerRegistry } from '../serializer';
+
+function counterReducer(state = 1, action: Action): number {
+    return action.type === 'increment' ? state + 1 : state;
+}
+
+class FakeWebSocket implements WebSocketLike {
+    static instances: FakeWebSocket[] = [];
+
+    readyState = 0;
+    sent: string[] = [];
+    private listeners: Record<string, ((event: any) => void)[]> = { open: [], message: [] };
+
+    constructor(public url: string) {
+        FakeWebSocket.instances.push(this);
+    }
+
+    send(data: string) {
+        this.sent.push(data);
+    }
+
+    close() {
+        this.readyState = 3;
+    }
+
+    addEventListener(type: 'open' | 'message', listener: (event: any) => void) {
+        this.listeners[type].push(listener);
+    }
+
+    removeEventListener(type: 'open' | 'message', listener: (event: any) => void) {
+        this.listeners[type] = this.listeners[type].filter((v) => v !== listener);
+    }
+
+    open() {
+        this.readyState = 1;
+        this.listeners['open'].forEach((listener) => listener({}));
+    }
+
+    receive(data: string) {
+        this.listeners['message'].forEach((listener) => listener({ data }));
+    }
+}
+
+describe('RemoteDevtoolsExtension', () => {
+    let server: ReturnType<typeof createInMemoryDevtoolsServer>;
+    let extension: RemoteDevtoolsExtension;
+    let store: Store;
+
+    function getState() {
+        let state: any;
+        store.select((v) => v).subscribe((v) => (state = v));
+        return state;
+    }
+
+    beforeEach(() => {
+        server = createInMemoryDevtoolsServer();
+        extension = new RemoteDevtoolsExtension({ transport: server.createTransport() });
+        store = createStore({ reducers: { counter: counterReducer }, extensions: [extension] });
+    });
+
+    afterEach(() => {
+        extension.close();
+    });
+
+    it('should send the actions and states to the monitor', () => {
+        store.dispatch({ type: 'increment' });
+
+        expect(server.messages[0]).toEqual({
+            type: 'START',
+            instanceId: 'MiniRx - Remote DevTools',
+        });
+        expect(server.messages[server.messages.length - 1]).toEqual({
+            type: 'ACTION',
+            instanceId: 'MiniRx - Remote DevTools',
+            action: { type: 'increment' },
+            state: { counter: 2 },
+        });
+    });
+
+    it('should send setState actions with a serializable payload', () => {
+        const cs = createComponentStore({ count: 1 }, { extensions: [extension], name: 'cs' });
+        cs.setState((state) => ({ count: state.count + 1 }));
+
+        expect(server.messages[server.messages.length - 1]).toEqual({
+            type: 'ACTION',
+            instanceId: 'MiniRx - Remote DevTools (cs)',
+            action: { type: '@mini-rx/component-store/set-state', payload: '[Function]' },
+            state: { count: 2 },
+        });
+
+        cs.destroy();
+    });
+
+    it('should jump to the state of the monitor', () => {
+        store.dispatch({ type: 'increment' });
+        store.dispatch({ type: 'increment' });
+
+        server.send({
+            type: 'DISPATCH',
+            payload: { type: 'JUMP_TO_STATE', actionId: 1 },
+            state: JSON.stringify({ counter: 2 }),
+        });
+
+        expect(getState()).toEqual({ counter: 2 });
+    });
+
+    it('should parse the state of the monitor with the serializer of the store config', () => {
+        const serializer = createSerializerRegistry();
+        const serializerServer = createInMemoryDevtoolsServer();
+        const serializerExtension = new RemoteDevtoolsExtension({
+            transport: serializerServer.createTransport(),
+        });
+        const serializerStore = createStore({ extensions: [serializerExtension], serializer });
+        const fs = createFeatureStore('dates', { date: new Date(0) }, { store: serializerStore });
+
+        expect(serializerServer.messages[serializerServer.messages.length - 1]).toEqual(
+            expect.objectContaining({
+                state: {
+                    dates: { date: { __miniRxType: 'Date', value: new Date(0).toISOString() } },
+                },
+            })
+        );
+
+        serializerServer.send({
+            type: 'DISPATCH',
+            payload: { type: 'JUMP_TO_STATE' },
+            state: serializer.stringify({ dates: { date: new Date(1000) } }),
+        });
+
+        expect(fs.state.date).toEqual(new Date(1000));
+
+        serializerExtension.close();
+    });
+
+    it('should dispatch actions from the monitor', () => {
+        server.send({ type: 'ACTION', payload: JSON.stringify({ type: 'increment' }) });
+
+        expect(getState()).toEqual({ counter: 2 });
+        expect(server.messages[server.messages.length - 1]).toEqual(
+            expect.objectContaining({ type: 'ACTION', action: { type: 'increment' } })
+        );
+    });
+
+    it('should handle the commands of its own instance only', () => {
+        const cs = createComponentStore({ count: 1 }, { extensions: [extension], name: 'cs' });
+
+        server.send({
+            type: 'DISPATCH',
+            payload: { type: 'JUMP_TO_STATE' },
+            state: JSON.stringify({ count: 5 }),
+            instanceId: 'MiniRx - Remote DevTools (cs)',
+        });
+
+        expect(cs.state).toEqual({ count: 5 });
+        expect(getState()).toEqual({ counter: 1 });
+
+        cs.destroy();
+    });
+
+    it('should send the lifted state after a commit', () => {
+        store.dispatch({ type: 'increment' });
+        server.send({ type: 'DISPATCH', payload: { type: 'COMMIT' } });
+
+        const lastMessage = server.messages[server.messages.length - 1];
+        expect(lastMessage).toEqual(
+            expect.objectContaining({
+                type: 'STATE',
+                liftedState: expect.objectContaining({
+                    computedStates: [{ state: { counter: 2 } }],
+                }),
+            })
+        );
+    });
+
+    it('should stop listening to the monitor after close', () => {
+        extension.close();
+
+        server.send({ type: 'ACTION', payload: { type: 'increment' } });
+
+        expect(getState()).toEqual({ counter: 1 });
+    });
+
+    describe('createWebSocketTransport', () => {
+        beforeEach(() => {
+            FakeWebSocket.instances = [];
+        });
+
+        it('should queue the messages until the connection is open', () => {
+            const transport = createWebSocketTransport('ws://localhost:8000', FakeWebSocket);
+            const socket = FakeWebSocket.instances[0];
+
+            transport.send('a');
+            expect(socket.url).toBe('ws://localhost:8000');
+            expect(socket.sent).toEqual([]);
+
+            socket.open();
+            transport.send('b');
+            expect(socket.sent).toEqual(['a', 'b']);
+        });
+
+        it('should throw if no WebSocket is available', () => {
+            const globalWithWebSocket = globalThis as { WebSocket?: unknown };
+            const globalWebSocket = globalWithWebSocket.WebSocket;
+            // E.g. Node < 22
+            delete globalWithWebSocket.WebSocket;
+
+            try {
+                expect(() => createWebSocketTransport('ws://localhost:8000')).toThrowError(
+                    'No WebSocket available. Please provide a WebSocket constructor'
+                );
+            } finally {
+                globalWithWebSocket.WebSocket = globalWebSocket;
+            }
+        });
+
+        it('should connect a store to the monitor', () => {
+            const transport = createWebSocketTransport('ws://localhost:8000', FakeWebSocket);
+            const socket = FakeWebSocket.instances[0];
+            socket.open();
+
+            const wsExtension = new RemoteDevtoolsExtension({ transport, name: 'node' });
+            const wsStore = createStore({
+                reducers: { counter: counterReducer },
+                extensions: [wsExtension],
+            });
+
+            socket.receive(JSON.stringify({ type: 'ACTION', payload: { type: 'increment' } }));
+
+            let state: any;
+            wsStore.select((v) => v).subscribe((v) => (state = v));
+            expect(state).toEqual({ counter: 2 });
+            expect(JSON.parse(socket.sent[socket.sent.length - 1])).toEqual({
+                type: 'ACTION',
+                instanceId: 'node',
+                action: { type: 'increment' },
+                state: { counter: 2 },
+            });
+
+            wsExtension.close();
+            expect(socket.readyState).toBe(3);
+        });
+
+        it('should log an error for invalid messages', () => {
+            const spy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+            const transport = createWebSocketTransport('ws://localhost:8000', FakeWebSocket);
+            const wsExtension = new RemoteDevtoolsExtension({ transport });
+            createStore({ reducers: { counter: counterReducer }, extensions: [wsExtension] });
+
+            FakeWebSocket.instances[0].receive('{');
+
+            expect(spy).toHaveBeenCalledWith(
+                expect.stringContaining('The message from the monitor is not valid JSON.'),
+                expect.anything()
+            );
+
+            spy.mockRestore();
+            wsExtension.close();
+        });
+    });
+});
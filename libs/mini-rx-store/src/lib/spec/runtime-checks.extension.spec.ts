@@ -0,0 +1,165 @@
+import { RuntimeChecksExtension } from '../extensions/runtime-checks.extension';
+import { Action, Reducer } from '../models';
+import { createComponentStore } from '../component-store';
+import { createFeatureStore } from '../feature-store';
+import { createStore } from '../store';
+import { createBatchAction } from '../actions';
+import { UndoExtension } from '../extensions/undo.extension';
+
+interface TodoState {
+    todos: any[];
+}
+
+function todoReducer(state: TodoState = { todos: [] }, action: Action): TodoState {
+    switch (action.type) {
+        case 'addTodo':
+            return { todos: [...state.todos, action['payload']] };
+        case 'addTodoWithMutation':
+            action['payload'].done = true; // mutate
+            return { todos: [...state.todos, action['payload']] };
+        default:
+            return state;
+    }
+}
+
+function createCheckedReducer(extension = new RuntimeChecksExtension()): Reducer<TodoState> {
+    return extension.init()(todoReducer);
+}
+
+describe('Runtime Checks Extension', () => {
+    it('should not throw for serializable state and actions', () => {
+        const reducer = createCheckedReducer();
+
+        expect(() =>
+            reducer({ todos: [] }, { type: 'addTodo', payload: { id: 1, title: 'Todo' } })
+        ).not.toThrow();
+    });
+
+    it('should throw for unserializable state with the action type and property path', () => {
+        const reducer = createCheckedReducer(
+            new RuntimeChecksExtension({ strictActionSerializability: false })
+        );
+
+        expect(() =>
+            reducer({ todos: [] }, { type: 'addTodo', payload: { id: 1, dueDate: new Date() } })
+        ).toThrowError(
+            '@mini-rx: Detected an unserializable state value at "todos.0.dueDate" (action type: "addTodo").'
+        );
+    });
+
+    it('should throw for unserializable actions with the action type and property path', () => {
+        const reducer = createCheckedReducer();
+
+        expect(() =>
+            reducer({ todos: [] }, { type: 'addTodo', payload: { tags: new Set(['urgent']) } })
+        ).toThrowError(
+            '@mini-rx: Detected an unserializable action value at "payload.tags" (action type: "addTodo").'
+        );
+    });
+
+    it('should check the actions of a batch action', () => {
+        const reducer = createCheckedReducer();
+        const batchAction = createBatchAction([
+            { type: 'addTodo', payload: { id: 1 } },
+            { type: 'addTodo', payload: { callback: () => undefined } },
+        ]);
+
+        expect(() => reducer({ todos: [] }, batchAction)).toThrowError(
+            '@mini-rx: Detected an unserializable action value at "payload.callback" (action type: "addTodo").'
+        );
+    });
+
+    it('should throw for mutated actions with the action type and property path', () => {
+        const reducer = createCheckedReducer();
+
+        expect(() =>
+            reducer({ todos: [] }, { type: 'addTodoWithMutation', payload: { id: 1 } })
+        ).toThrowError(
+            '@mini-rx: Detected a mutation of the action "addTodoWithMutation" at "payload.done". Reducers must not mutate actions.'
+        );
+    });
+
+    it('should allow to disable the checks individually', () => {
+        const reducer = createCheckedReducer(
+            new RuntimeChecksExtension({
+                strictStateSerializability: false,
+                strictActionSerializability: false,
+                strictActionImmutability: false,
+            })
+        );
+
+        expect(() =>
+            reducer(
+                { todos: [] },
+                { type: 'addTodoWithMutation', payload: { id: 1, dueDate: new Date() } }
+            )
+        ).not.toThrow();
+    });
+
+    it('should only check the changed state', () => {
+        const reducer = createCheckedReducer();
+        // The unserializable state already exists: it is not reported for every action
+        const state: TodoState = { todos: [{ dueDate: new Date() }] };
+
+        expect(() => reducer(state, { type: 'someAction' })).not.toThrow();
+    });
+
+    it('should warn if setState is called without a name', () => {
+        const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        const cs = createComponentStore(
+            { counter: 1 },
+            { extensions: [new RuntimeChecksExtension()] }
+        );
+
+        cs.setState({ counter: 2 }, 'increment');
+        expect(warnSpy).not.toHaveBeenCalled();
+
+        cs.setState((state) => ({ counter: state.counter + 1 }));
+        expect(warnSpy).toHaveBeenCalledWith(
+            '@mini-rx: setState was called without a name (action type: "@mini-rx/component-store/set-state"). ' +
+                'Pass a name to `setState` to make the action type more descriptive.'
+        );
+
+        warnSpy.mockRestore();
+    });
+
+    it('should check the setState actions of a FeatureStore', () => {
+        const store = createStore({
+            extensions: [new RuntimeChecksExtension({ warnOnMissingSetStateName: false })],
+        });
+        const fs = createFeatureStore<{ lastUpdate?: Date }>('runtimeChecks', {}, { store });
+
+        // The error is thrown inside the store subscription: the state is not updated
+        fs.setState({ lastUpdate: new Date() }, 'update');
+        expect(fs.state.lastUpdate).toBeUndefined();
+    });
+
+    it('should not throw for undo actions of setState callbacks', () => {
+        const store = createStore({
+            extensions: [
+                new RuntimeChecksExtension({ warnOnMissingSetStateName: false }),
+                new UndoExtension(),
+            ],
+        });
+        const fs = createFeatureStore('runtimeChecksUndo', { counter: 1 }, { store });
+
+        const action = fs.setState((state) => ({ counter: state.counter + 1 }));
+        fs.batch(() => fs.setState((state) => ({ counter: state.counter + 1 })));
+        expect(fs.state.counter).toBe(3);
+
+        expect(() => fs.undo(action)).not.toThrow();
+        expect(fs.state.counter).toBe(2);
+    });
+
+    it('should check the setState actions in the payload of an action', () => {
+        const reducer = createCheckedReducer();
+        const cs = createComponentStore<{ date?: Date }>({});
+        const setStateAction = cs.setState({ date: new Date() });
+
+        expect(() =>
+            reducer({ todos: [] }, { type: 'someAction', payload: setStateAction })
+        ).toThrowError(
+            'Detected an unserializable action value at "payload.stateOrCallback.date" (action type: "someAction").'
+        );
+    });
+});
@@ -1,6 +1,8 @@
 // Credits to NgRx: https://github.com/ngrx/platform/blob/8.6.0/modules/store/spec/selector.spec.ts
 
-import { createSelector } from '../selector';
+import { configureSelectors, createSelector, createSelectorFactory } from '../selector';
+import { createLruMemoizer, weakMemoize } from '../memoize';
+import { createStore } from '../store';
 
 describe('Selectors', () => {
     let countOne: number;
@@ -130,4 +132,258 @@ describe('Selectors', () => {
             expect(selectDictionary({ x: 2, y: 'store' })).toEqual({});
         });
     });
+    describe('Selectors with props', () => {
+        interface ProductState {
+            products: Record<number, string>;
+        }
+
+        const state: ProductState = { products: { 1: 'Apple', 2: 'Pear', 3: 'Plum' } };
+        const selectProducts = (s: ProductState) => s.products;
+
+        it('should pass the props to the selectors and the projector', () => {
+            const selectProductById = createSelector(
+                selectProducts,
+                (s: ProductState, id: number) => id * 10,
+                (products, price, id) => products[id] + ': ' + price
+            );
+
+            expect(selectProductById(state, 2)).toBe('Pear: 20');
+        });
+
+        it('should share memoized results with the LRU memoizer', () => {
+            const projector = jest.fn((products: Record<number, string>, id: number) =>
+                products[id].toUpperCase()
+            );
+            const selectProductById = createSelectorFactory(createLruMemoizer(3))(
+                selectProducts,
+                projector
+            );
+
+            // E.g. three list rows select from the same selector
+            [1, 2, 3, 1, 2, 3].forEach((id) => selectProductById(state, id));
+
+            expect(projector).toHaveBeenCalledTimes(3);
+            expect(selectProductById(state, 3)).toBe('PLUM');
+        });
+
+        it('should not pass the props to nested selectors without props', () => {
+            const itemsProjector = jest.fn((products: Record<number, string>) =>
+                Object.values(products)
+            );
+            const selectProductList = createSelector(selectProducts, itemsProjector);
+            const selectProductAt = createSelector(
+                selectProductList,
+                (products: string[], index: number) => products[index]
+            );
+
+            // E.g. three list rows select from the same selector
+            const results = [0, 1, 2].map((index) => selectProductAt(state, index));
+            expect(results).toEqual(['Apple', 'Pear', 'Plum']);
+
+            const nextState: ProductState = { products: { ...state.products, 4: 'Kiwi' } };
+            [0, 1, 2].forEach((index) => selectProductAt(nextState, index));
+
+            expect(itemsProjector).toHaveBeenCalledTimes(2);
+            expect(selectProductList(nextState)).toBe(selectProductList(nextState));
+        });
+
+        it('should pass the props to nested selectors with props', () => {
+            const selectProductById = createSelector(
+                selectProducts,
+                (products: Record<number, string>, id: number) => products[id]
+            );
+            const selectProductLabel = createSelector(
+                selectProductById,
+                (product) => 'Product: ' + product
+            );
+
+            expect(selectProductLabel(state, 1)).toBe('Product: Apple');
+            expect(selectProductLabel(state, 3)).toBe('Product: Plum');
+        });
+
+        it('should work with store.select', () => {
+            const store = createStore({
+                reducers: { products: (products = state.products) => products },
+            });
+            const selectProductById = createSelector(
+                selectProducts,
+                (products: Record<number, string>, id: number) => products[id]
+            );
+            const spy = jest.fn();
+
+            store.select((s) => selectProductById(s as ProductState, 3)).subscribe(spy);
+
+            expect(spy).toHaveBeenCalledWith('Plum');
+        });
+    });
+
+    describe('Memoizers', () => {
+        it('should evict the least recently used result', () => {
+            const fn = jest.fn((a: number) => a * 2);
+            const memoized = createLruMemoizer(2)(fn);
+
+            memoized(1);
+            memoized(2);
+            memoized(1); // 1 is the most recently used
+            memoized(3); // Evicts 2
+            memoized(1);
+            expect(fn).toHaveBeenCalledTimes(3);
+
+            memoized(2);
+            expect(fn).toHaveBeenCalledTimes(4);
+        });
+
+        it('should throw if the size of the LRU memoizer is invalid', () => {
+            expect(() => createLruMemoizer(0)).toThrowError(
+                '@mini-rx: The size of the LRU memoizer must be at least 1.'
+            );
+        });
+
+        it('should cache all results with the weak memoizer', () => {
+            const fn = jest.fn((obj: { value: number }, factor: number) => obj.value * factor);
+            const memoized = weakMemoize(fn);
+            const obj1 = { value: 1 };
+            const obj2 = { value: 2 };
+
+            expect(memoized(obj1, 2)).toBe(2);
+            expect(memoized(obj2, 2)).toBe(4);
+            expect(memoized(obj1, 3)).toBe(3);
+            expect(memoized(obj1, 2)).toBe(2);
+            expect(memoized(obj2, 2)).toBe(4);
+            expect(memoized({ value: 1 }, 2)).toBe(2);
+
+            expect(fn).toHaveBeenCalledTimes(4);
+        });
+
+        it('should keep the 100 most recently used primitive arguments with the weak memoizer', () => {
+            const fn = jest.fn((id: number) => id * 2);
+            const memoized = weakMemoize(fn);
+
+            for (let id = 0; id <= 100; id++) {
+                memoized(id);
+            }
+            expect(fn).toHaveBeenCalledTimes(101);
+
+            // The least recently used id (0) has been removed
+            memoized(100);
+            memoized(1);
+            expect(fn).toHaveBeenCalledTimes(101);
+            memoized(0);
+            expect(fn).toHaveBeenCalledTimes(102);
+        });
+
+        it('should create selectors with the weak memoizer', () => {
+            const projector = jest.fn((value: number) => value * 2);
+            const selectDouble = createSelectorFactory(weakMemoize)(
+                (state: { value: number }) => state.value,
+                projector
+            );
+            const state1 = { value: 1 };
+            const state2 = { value: 2 };
+
+            selectDouble(state1);
+            selectDouble(state2);
+            selectDouble(state1);
+
+            expect(projector).toHaveBeenCalledTimes(2);
+        });
+    });
+    describe('Selector metadata', () => {
+        interface CounterState {
+            counter: number;
+            other: string;
+        }
+
+        const selectCounter = (state: CounterState) => state.counter;
+
+        it('should count the recomputations', () => {
+            const selectDouble = createSelector(selectCounter, (counter) => counter * 2);
+
+            selectDouble({ counter: 1, other: 'a' });
+            selectDouble({ counter: 1, other: 'b' });
+            selectDouble({ counter: 2, other: 'b' });
+            expect(selectDouble.recomputations()).toBe(2);
+
+            selectDouble.resetRecomputations();
+            expect(selectDouble.recomputations()).toBe(0);
+        });
+
+        it('should release the memoized result', () => {
+            const selectDouble = createSelector(selectCounter, (counter) => counter * 2);
+            const state = { counter: 1, other: 'a' };
+
+            selectDouble(state);
+            selectDouble.release();
+            selectDouble(state);
+
+            expect(selectDouble.recomputations()).toBe(2);
+        });
+
+        it('should expose the projector', () => {
+            const selectDouble = createSelector(selectCounter, (counter) => counter * 2);
+
+            expect(selectDouble.projector(5)).toBe(10);
+            expect(selectDouble.recomputations()).toBe(0);
+        });
+
+        it('should override the result', () => {
+            const selectDouble = createSelector(selectCounter, (counter) => counter * 2);
+            const state = { counter: 1, other: 'a' };
+
+            selectDouble.setResult(100);
+            expect(selectDouble(state)).toBe(100);
+
+            selectDouble.clearResult();
+            expect(selectDouble(state)).toBe(2);
+        });
+
+        it('should warn if a projector returns a new deep-equal result', () => {
+            console.warn = jest.fn();
+            configureSelectors({ warnOnDeepEqualResults: true });
+
+            const selectCounterObject = createSelector(selectCounter, (counter) => ({
+                isPositive: counter > 0,
+            }));
+
+            selectCounterObject({ counter: 1, other: 'a' });
+            selectCounterObject({ counter: 2, other: 'a' });
+            expect(console.warn).toHaveBeenCalledTimes(1);
+            expect(console.warn).toHaveBeenCalledWith(
+                expect.stringContaining(
+                    '@mini-rx: A selector projector returned a new object which is deep-equal to its previous result.'
+                )
+            );
+
+            selectCounterObject({ counter: -1, other: 'a' });
+            expect(console.warn).toHaveBeenCalledTimes(1);
+
+            configureSelectors({});
+            selectCounterObject({ counter: -2, other: 'a' });
+            expect(console.warn).toHaveBeenCalledTimes(1);
+        });
+
+        it('should compare the results of selectors with props only for the same props', () => {
+            console.warn = jest.fn();
+            configureSelectors({ warnOnDeepEqualResults: true });
+
+            interface ItemsState {
+                items: Record<number, { done: boolean }>;
+            }
+            const selectItemStatus = createSelectorFactory(createLruMemoizer(2))(
+                (state: ItemsState, id: number) => state.items[id],
+                (item, id) => ({ id: typeof id, done: item.done })
+            );
+
+            const state: ItemsState = { items: { 1: { done: false }, 2: { done: false } } };
+            selectItemStatus(state, 1);
+            selectItemStatus(state, 2);
+            selectItemStatus(state, 1);
+            expect(console.warn).not.toHaveBeenCalled();
+
+            selectItemStatus({ items: { ...state.items, 1: { done: false } } }, 1);
+            expect(console.warn).toHaveBeenCalledTimes(1);
+
+            configureSelectors({});
+        });
+    });
 });
@@ -0,0 +1,207 @@
+import {
+    createClassSerializer,
+    createSerializerRegistry,
+    createStateSnapshot,
+    parseStateSnapshot,
+} from '../serializer';
+import { createStore } from '../store';
+import { createFeatureStore } from '../feature-store';
+import { createComponentStore } from '../component-store';
+import { Action } from '../models';
+import {
+    createInMemoryStorage,
+    PersistStateExtension,
+} from '../extensions/persist-state.extension';
+import { formatLogEntry } from '../extensions/logger.extension';
+
+class Money {
+    constructor(public amount: number, public currency: string) {}
+
+    format(): string {
+        return `${this.amount} ${this.currency}`;
+    }
+}
+
+interface OrderState {
+    createdAt: Date;
+    tags: Set<string>;
+    quantities: Map<string, number>;
+    total: Money;
+}
+
+const orderState: OrderState = {
+    createdAt: new Date('2024-01-01T10:00:00.000Z'),
+    tags: new Set(['express']),
+    quantities: new Map([['apple', 2]]),
+    total: new Money(10, 'EUR'),
+};
+
+function counterReducer(state = 1, action: Action): number {
+    return action.type === 'increment' ? state + 1 : state;
+}
+
+describe('SerializerRegistry', () => {
+    const serializer = createSerializerRegistry().register(createClassSerializer('Money', Money));
+
+    it('should serialize and revive Date, Map, Set and class instances', () => {
+        const revived = serializer.parse<OrderState>(serializer.stringify(orderState));
+
+        expect(revived.createdAt).toBeInstanceOf(Date);
+        expect(revived.createdAt.getTime()).toBe(orderState.createdAt.getTime());
+        expect(revived.tags).toEqual(new Set(['express']));
+        expect(revived.quantities).toEqual(new Map([['apple', 2]]));
+        expect(revived.total).toBeInstanceOf(Money);
+        expect(revived.total.format()).toBe('10 EUR');
+    });
+
+    it('should serialize nested values', () => {
+        const state = { dates: new Map([['start', new Date(0)]]) };
+        const revived = serializer.parse<typeof state>(serializer.stringify(state));
+
+        expect(revived.dates.get('start')).toEqual(new Date(0));
+    });
+
+    it('should throw for unknown types', () => {
+        const json = serializer.stringify({ total: new Money(1, 'EUR') });
+
+        expect(() => createSerializerRegistry().parse(json)).toThrowError(
+            'No serializer is registered for the type "Money".'
+        );
+    });
+});
+
+describe('State snapshots', () => {
+    it('should throw for invalid snapshots', () => {
+        expect(() => parseStateSnapshot('{')).toThrowError('The snapshot could not be parsed');
+        expect(() => parseStateSnapshot('{"state": {}}')).toThrowError(
+            'The snapshot is not a valid state snapshot.'
+        );
+        expect(() => parseStateSnapshot(createStateSnapshot([1]))).toThrowError(
+            'The state of the snapshot must be an object.'
+        );
+    });
+
+    describe('Store', () => {
+        it('should export and import the state', () => {
+            const serializer = createSerializerRegistry().register(
+                createClassSerializer('Money', Money)
+            );
+            const store = createStore({ reducers: { counter: counterReducer }, serializer });
+            createFeatureStore('order', orderState, { store });
+
+            store.dispatch({ type: 'increment' });
+            const snapshot = store.exportState();
+
+            const otherStore = createStore({ reducers: { counter: counterReducer }, serializer });
+            const otherOrderFs = createFeatureStore<OrderState>(
+                'order',
+                { ...orderState, total: new Money(0, 'EUR') },
+                { store: otherStore }
+            );
+            otherStore.importState(snapshot);
+
+            let counter: number | undefined;
+            otherStore.select((state) => state['counter']).subscribe((v) => (counter = v));
+            expect(counter).toBe(2);
+            expect(otherOrderFs.state.total).toBeInstanceOf(Money);
+            expect(otherOrderFs.state.total.amount).toBe(10);
+            expect(otherOrderFs.state.createdAt).toEqual(orderState.createdAt);
+        });
+
+        it('should throw for unknown features before updating the state', () => {
+            const store = createStore({ reducers: { counter: counterReducer } });
+            const snapshot = createStateSnapshot({ counter: 5, unknownFeature: {} });
+
+            expect(() => store.importState(snapshot)).toThrowError(
+                'importState: The feature "unknownFeature" does not exist.'
+            );
+
+            let counter: number | undefined;
+            store.select((state) => state['counter']).subscribe((v) => (counter = v));
+            expect(counter).toBe(1);
+        });
+    });
+
+    describe('FeatureStore', () => {
+        it('should export and import the state', () => {
+            const store = createStore();
+            const fs = createFeatureStore('snapshotFs', { tags: new Set(['a']) }, { store });
+
+            const snapshot = fs.exportState();
+            fs.setState({ tags: new Set(['b']) });
+            fs.importState(snapshot);
+
+            expect(fs.state.tags).toEqual(new Set(['a']));
+        });
+
+        it('should throw if the feature does not exist anymore', () => {
+            const store = createStore();
+            const fs = createFeatureStore('destroyedFs', { count: 1 }, { store });
+            const snapshot = fs.exportState();
+            fs.destroy();
+
+            expect(() => fs.importState(snapshot)).toThrowError(
+                'importState: The feature "destroyedFs" does not exist.'
+            );
+        });
+    });
+
+    describe('ComponentStore', () => {
+        it('should export and import the state with the configured serializer', () => {
+            const serializer = createSerializerRegistry().register(
+                createClassSerializer('Money', Money)
+            );
+            const cs = createComponentStore({ total: new Money(5, 'USD') }, { serializer });
+
+            const snapshot = cs.exportState();
+            cs.setState({ total: new Money(0, 'USD') });
+            cs.importState(snapshot);
+
+            expect(cs.state.total).toBeInstanceOf(Money);
+            expect(cs.state.total.format()).toBe('5 USD');
+        });
+    });
+});
+
+describe('Serializer of the extensions', () => {
+    it('should persist the state with the serializer of the store config', () => {
+        const storage = createInMemoryStorage();
+        const storageKey = 'serializer-spec';
+        const serializer = createSerializerRegistry();
+        const createdAt = new Date('2024-01-01T10:00:00.000Z');
+
+        const store = createStore({
+            serializer,
+            extensions: [new PersistStateExtension({ storage, storageKey })],
+        });
+        const fs = createFeatureStore('persistedFs', { createdAt: new Date(0) }, { store });
+        fs.setState({ createdAt });
+
+        const otherStore = createStore({
+            serializer,
+            extensions: [new PersistStateExtension({ storage, storageKey })],
+        });
+        const otherFs = createFeatureStore(
+            'persistedFs',
+            { createdAt: new Date(0) },
+            { store: otherStore }
+        );
+
+        expect(otherFs.state.createdAt).toBeInstanceOf(Date);
+        expect(otherFs.state.createdAt).toEqual(createdAt);
+    });
+
+    it('should format log entries with the serializer', () => {
+        const text = formatLogEntry(
+            {
+                action: { type: 'add' },
+                prevState: {},
+                nextState: { tags: new Set(['a']) },
+                duration: 0,
+            },
+            { serializer: createSerializerRegistry() }
+        );
+
+        expect(text).toContain('State: {"tags":{"__miniRxType":"Set","value":["a"]}}');
+    });
+});
@@ -0,0 +1,237 @@
+import {
+    RecordedSession,
+    SessionRecorderExtension,
+} from '../extensions/session-recorder.extension';
+import { createSessionReplayer } from '../session-replayer';
+import { Action } from '../models';
+import { createStore, Store } from '../store';
+import { createFeatureStore, FeatureStore } from '../feature-store';
+import {
+    createClassSerializer,
+    createSerializerRegistry,
+    createStateSnapshot,
+} from '../serializer';
+
+interface TodoState {
+    todos: string[];
+    filter: string;
+}
+
+function counterReducer(state = 1, action: Action): number {
+    return action.type === 'increment' ? state + 1 : state;
+}
+
+describe('SessionRecorderExtension', () => {
+    let extension: SessionRecorderExtension;
+    let store: Store;
+    let todoFs: FeatureStore<TodoState>;
+
+    beforeEach(() => {
+        extension = new SessionRecorderExtension();
+        store = createStore({ reducers: { counter: counterReducer }, extensions: [extension] });
+        todoFs = createFeatureStore<TodoState>('todo', { todos: [], filter: 'all' }, { store });
+    });
+
+    it('should record the actions with the initial state and the state snapshots', () => {
+        store.dispatch({ type: 'increment' });
+
+        const session: RecordedSession = extension.session;
+        expect(session.initialState).toBe(undefined);
+        expect(session.entries.map((entry) => entry.action.type)).toEqual([
+            '@mini-rx/init',
+            '@mini-rx/todo/init',
+            'increment',
+        ]);
+        expect(session.entries[2].state).toEqual({
+            counter: 2,
+            todo: { todos: [], filter: 'all' },
+        });
+    });
+
+    it('should resolve setState callbacks to the partial state', () => {
+        todoFs.setState((state) => ({ todos: [...state.todos, 'Buy milk'] }), 'addTodo');
+        todoFs.setState({ filter: 'done' });
+
+        const [addTodo, setFilter] = extension.session.entries.slice(-2);
+        expect(addTodo.action).toEqual(
+            expect.objectContaining({
+                type: '@mini-rx/todo/set-state/addTodo',
+                stateOrCallback: { todos: ['Buy milk'] },
+            })
+        );
+        expect(setFilter.action).toEqual(
+            expect.objectContaining({ stateOrCallback: { filter: 'done' } })
+        );
+        expect(() => createSessionReplayer(extension.exportSession())).not.toThrow();
+    });
+
+    it('should resolve the setState callbacks of a batch', () => {
+        store.batch(() => {
+            todoFs.setState((state) => ({ todos: [...state.todos, 'a'] }));
+            todoFs.setState((state) => ({ todos: [...state.todos, 'b'] }));
+        });
+
+        const replayer = createSessionReplayer(extension.exportSession(), {
+            reducers: { counter: counterReducer },
+        });
+        replayer.replayAll();
+
+        expect(replayer.state['todo']).toEqual({ todos: ['a', 'b'], filter: 'all' });
+        expect(replayer.divergences).toEqual([]);
+    });
+
+    it('should start a new session with the current state', () => {
+        store.dispatch({ type: 'increment' });
+        extension.clear();
+        store.dispatch({ type: 'increment' });
+
+        const session = extension.session;
+        expect(session.initialState).toEqual({ counter: 2, todo: { todos: [], filter: 'all' } });
+        expect(session.entries.length).toBe(1);
+    });
+
+    it('should record imported states', () => {
+        store.importState(
+            createStateSnapshot({ counter: 5, todo: { todos: ['a'], filter: 'all' } })
+        );
+        todoFs.importState(createStateSnapshot({ todos: ['b'], filter: 'done' }));
+
+        const [storeImport, featureImport] = extension.session.entries.slice(-2);
+        expect(storeImport.action.type).toBe('@mini-rx/import-state');
+        expect(storeImport.state).toEqual({ counter: 5, todo: { todos: ['a'], filter: 'all' } });
+        expect(featureImport.action.type).toBe('@mini-rx/todo/import-state');
+        expect(featureImport.state).toEqual({ counter: 5, todo: { todos: ['b'], filter: 'done' } });
+    });
+
+    it('should export the session with the serializer of the store', () => {
+        class Money {
+            constructor(public amount: number) {}
+        }
+        const serializer = createSerializerRegistry().register(
+            createClassSerializer('Money', Money)
+        );
+        extension = new SessionRecorderExtension();
+        store = createStore({ serializer, extensions: [extension] });
+        const orderFs = createFeatureStore(
+            'order',
+            { createdAt: new Date(0), total: new Money(1) },
+            { store }
+        );
+        orderFs.setState({ createdAt: new Date(1000), total: new Money(2) });
+
+        const replayer = createSessionReplayer(extension.exportSession(), { serializer });
+        replayer.replayAll();
+
+        expect(replayer.state['order'].createdAt).toEqual(new Date(1000));
+        expect(replayer.state['order'].total).toBeInstanceOf(Money);
+        expect(replayer.divergences).toEqual([]);
+    });
+
+    it('should remove the oldest entries', () => {
+        extension = new SessionRecorderExtension({ maxEntries: 2 });
+        store = createStore({ reducers: { counter: counterReducer }, extensions: [extension] });
+        store.dispatch({ type: 'increment' });
+        store.dispatch({ type: 'increment' });
+
+        const session = extension.session;
+        expect(session.initialState).toEqual({ counter: 1 });
+        expect(session.entries.map((entry) => entry.state)).toEqual([
+            { counter: 2 },
+            { counter: 3 },
+        ]);
+
+        const replayer = createSessionReplayer(session, { reducers: { counter: counterReducer } });
+        expect(replayer.replayAll().map((step) => step.state)).toEqual([
+            { counter: 2 },
+            { counter: 3 },
+        ]);
+    });
+});
+
+describe('SessionReplayer', () => {
+    let extension: SessionRecorderExtension;
+    let store: Store;
+    let session: string;
+
+    beforeEach(() => {
+        extension = new SessionRecorderExtension();
+        store = createStore({ reducers: { counter: counterReducer }, extensions: [extension] });
+        const todoFs = createFeatureStore<TodoState>(
+            'todo',
+            { todos: [], filter: 'all' },
+            { store }
+        );
+
+        store.dispatch({ type: 'increment' });
+        todoFs.setState((state) => ({ todos: [...state.todos, 'Buy milk'] }));
+        store.dispatch({ type: 'increment' });
+
+        session = extension.exportSession();
+    });
+
+    it('should replay the session step by step', () => {
+        const replayer = createSessionReplayer(session, { reducers: { counter: counterReducer } });
+
+        expect(replayer.length).toBe(5);
+        expect(replayer.index).toBe(-1);
+        expect(replayer.state).toEqual({});
+
+        replayer.step();
+        replayer.step();
+        const step = replayer.step();
+
+        expect(step?.index).toBe(2);
+        expect(step?.action.type).toBe('increment');
+        expect(replayer.state).toEqual({ counter: 2, todo: { todos: [], filter: 'all' } });
+
+        replayer.step();
+        replayer.step();
+        expect(replayer.step()).toBe(undefined);
+        expect(replayer.state).toEqual({
+            counter: 3,
+            todo: { todos: ['Buy milk'], filter: 'all' },
+        });
+        expect(replayer.divergences).toEqual([]);
+    });
+
+    it('should go to an index', () => {
+        const replayer = createSessionReplayer(session, { reducers: { counter: counterReducer } });
+
+        replayer.goTo(3);
+        expect(replayer.state).toEqual({
+            counter: 2,
+            todo: { todos: ['Buy milk'], filter: 'all' },
+        });
+
+        replayer.goTo(1);
+        expect(replayer.state).toEqual({ counter: 1, todo: { todos: [], filter: 'all' } });
+
+        replayer.goTo(-1);
+        expect(replayer.state).toEqual({});
+
+        expect(() => replayer.goTo(5)).toThrowError('The index 5 is out of range.');
+    });
+
+    it('should flag the steps where the replayed state diverges from the recorded state', () => {
+        // E.g. the reducer has been changed
+        const replayer = createSessionReplayer(session, {
+            reducers: {
+                counter: (state: number, action: Action) =>
+                    action.type === 'increment' ? state + 10 : state,
+            },
+        });
+
+        const steps = replayer.replayAll();
+
+        expect(steps[2].divergentPaths).toEqual(['counter']);
+        expect(steps[2].state['counter']).toBe(11);
+        expect(steps[2].recordedState['counter']).toBe(2);
+        expect(replayer.divergences.map((step) => step.index)).toEqual([2, 3, 4]);
+    });
+
+    it('should throw for invalid sessions', () => {
+        expect(() => createSessionReplayer('{}')).toThrowError(
+            'The session is not a valid recorded session.'
+        );
+    });
+});
@@ -0,0 +1,32 @@
+import { configureSignals, SignalFunctions } from '../signals';
+import { createComponentStore } from '../component-store';
+
+// Minimal signal functions (without dependency tracking): `computed` runs the computation on every read
+const signalFunctions: SignalFunctions = {
+    signal: <T>(initialValue: T) => {
+        let value = initialValue;
+        return Object.assign(() => value, { set: (v: T) => (value = v) });
+    },
+    computed: (computation) => computation,
+};
+
+describe('Signals', () => {
+    it('should throw if the signal functions are not configured', () => {
+        const cs = createComponentStore({ counter: 1 });
+
+        expect(() => cs.selectSignal((state) => state.counter)).toThrowError(
+            '@mini-rx: `selectSignal` needs a signal library. Please call `configureSignals` first'
+        );
+    });
+
+    it('should select a signal with the configured signal functions', () => {
+        configureSignals(signalFunctions);
+        const cs = createComponentStore({ counter: 1 });
+        const counter = cs.selectSignal((state) => state.counter);
+
+        expect(counter()).toBe(1);
+
+        cs.setState({ counter: 2 });
+        expect(counter()).toBe(2);
+    });
+});
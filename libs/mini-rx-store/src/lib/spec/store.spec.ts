@@ -1,4 +1,4 @@
-import { configureStore, Store } from '../store';
+import { configureStore, createStore, getStoreCore, Store } from '../store';
 import {
     Action,
     ActionWithPayload,
@@ -25,6 +25,7 @@ import {
 import { LoggerExtension } from '../extensions/logger.extension';
 import { createEffect } from '../create-effect';
 import { combineReducers } from '../combine-reducers';
+import { errors$ } from '../default-effects-error-handler';
 import * as StoreCore from '../store-core';
 import { actions$ } from '../store-core';
 
@@ -941,3 +942,446 @@ describe('Store Feature MetaReducers', () => {
         expect(nextStateSpy).toHaveBeenCalledTimes(2);
     });
 });
+
+describe('createStore', () => {
+    it('should create isolated store instances', () => {
+        const store1 = createStore({ reducers: { counter: counterReducer } });
+        const store2 = createStore({ reducers: { counter: counterReducer } });
+
+        const spy1 = jest.fn();
+        const spy2 = jest.fn();
+        store1.select(getCounter1).subscribe(spy1);
+        store2.select(getCounter1).subscribe(spy2);
+
+        store1.dispatch({ type: 'counter' });
+        store1.dispatch({ type: 'counter' });
+        store2.dispatch({ type: 'counter' });
+
+        expect(spy1.mock.calls).toEqual([[1], [2], [3]]);
+        expect(spy2.mock.calls).toEqual([[1], [2]]);
+    });
+
+    it('should not affect the global store', () => {
+        const isolatedStore = createStore({ reducers: { isolatedCounter: counterReducer } });
+        isolatedStore.feature<CounterState>('isolatedCounter2', counterReducer);
+
+        const spy = jest.fn();
+        store.select((state) => state).subscribe(spy);
+
+        expect(spy).toHaveBeenCalledWith(expect.not.objectContaining({ isolatedCounter: 1 }));
+        expect(spy).toHaveBeenCalledWith(expect.not.objectContaining({ isolatedCounter2: 1 }));
+    });
+
+    it('should have its own actions$', () => {
+        const isolatedStore = createStore();
+
+        const globalSpy = jest.fn();
+        const isolatedSpy = jest.fn();
+        actions$.subscribe(globalSpy);
+        isolatedStore.actions$.subscribe(isolatedSpy);
+
+        isolatedStore.dispatch({ type: 'isolatedAction' });
+
+        expect(isolatedSpy).toHaveBeenCalledWith({ type: 'isolatedAction' });
+        expect(globalSpy).not.toHaveBeenCalled();
+    });
+
+    it('should run effects on the isolated store', () => {
+        const isolatedStore = createStore({ reducers: { counter: counterReducer } });
+
+        isolatedStore.effect(
+            isolatedStore.actions$.pipe(
+                ofType('incrementTwice'),
+                mergeMap(() => [{ type: 'counter' }, { type: 'counter' }])
+            )
+        );
+
+        const spy = jest.fn();
+        isolatedStore.select(getCounter1).subscribe(spy);
+
+        isolatedStore.dispatch({ type: 'incrementTwice' });
+
+        expect(spy.mock.calls).toEqual([[1], [2], [3]]);
+    });
+
+    it('should add extensions only to the isolated store', () => {
+        const metaReducerSpy = jest.fn();
+
+        class Extension extends StoreExtension {
+            id = ExtensionId.LOGGER;
+
+            init() {
+                return (reducer: Reducer<any>): Reducer<any> =>
+                    (state, action) => {
+                        metaReducerSpy(action);
+                        return reducer(state, action);
+                    };
+            }
+        }
+
+        const isolatedStore = createStore({ extensions: [new Extension()] });
+        isolatedStore.dispatch({ type: 'isolatedAction' });
+        store.dispatch({ type: 'globalAction' });
+
+        expect(metaReducerSpy.mock.calls).toEqual([
+            [{ type: '@mini-rx/init' }],
+            [{ type: 'isolatedAction' }],
+        ]);
+    });
+
+    it('should allow creating many stores (also after `configureStore`)', () => {
+        expect(() => createStore()).not.toThrow();
+        expect(() => createStore()).not.toThrow();
+    });
+
+    describe('Effect lifecycle', () => {
+        it('should stop an effect with the returned subscription', () => {
+            const effectStore = createStore();
+            const spy = jest.fn();
+            effectStore.actions$.pipe(ofType('effectResult')).subscribe(spy);
+
+            const subscription = effectStore.effect(
+                effectStore.actions$.pipe(ofType('trigger'), mapTo({ type: 'effectResult' }))
+            );
+
+            effectStore.dispatch({ type: 'trigger' });
+            subscription.unsubscribe();
+            effectStore.dispatch({ type: 'trigger' });
+
+            expect(spy).toHaveBeenCalledTimes(1);
+        });
+
+        it('should stop feature effects when the feature is removed', () => {
+            const effectStore = createStore();
+            const storeCore = getStoreCore(effectStore);
+            const spy = jest.fn();
+            effectStore.actions$.pipe(ofType('effectResult')).subscribe(spy);
+
+            effectStore.feature('effectFeature', counterReducer);
+            effectStore.effect(
+                effectStore.actions$.pipe(
+                    ofType('trigger', '@mini-rx/effectFeature/destroy'),
+                    mapTo({ type: 'effectResult' })
+                ),
+                { featureKey: 'effectFeature' }
+            );
+            effectStore.effect(
+                effectStore.actions$.pipe(ofType('trigger'), mapTo({ type: 'effectResult' }))
+            );
+
+            effectStore.dispatch({ type: 'trigger' });
+            expect(spy).toHaveBeenCalledTimes(2);
+
+            storeCore.removeFeature('effectFeature');
+            // The feature effect still reacts to the destroy action
+            expect(spy).toHaveBeenCalledTimes(3);
+
+            effectStore.dispatch({ type: 'trigger' });
+            expect(spy).toHaveBeenCalledTimes(4);
+        });
+    });
+
+    describe('Effects error handling', () => {
+        function effectWithError(effectStore: Store, apiSpy: jest.Mock) {
+            return effectStore.actions$.pipe(
+                ofType('load'),
+                map(() => {
+                    apiSpy();
+                    throw new Error('API error');
+                })
+            );
+        }
+
+        function dispatchLoad(effectStore: Store, times: number) {
+            for (let i = 0; i < times; i++) {
+                effectStore.dispatch({ type: 'load' });
+            }
+        }
+
+        beforeEach(() => {
+            console.error = jest.fn();
+        });
+
+        it('should use the effect retries of the store config', () => {
+            const effectStore = createStore({ effectRetries: 2 });
+            const apiSpy = jest.fn();
+            effectStore.effect(effectWithError(effectStore, apiSpy));
+
+            dispatchLoad(effectStore, 5);
+
+            expect(apiSpy).toHaveBeenCalledTimes(3); // First time + 2 re-subscriptions
+        });
+
+        it('should use the retries of the effect config', () => {
+            const effectStore = createStore({ effectRetries: 2 });
+            const apiSpy = jest.fn();
+            effectStore.effect(createEffect(effectWithError(effectStore, apiSpy), { retries: 0 }));
+
+            dispatchLoad(effectStore, 5);
+
+            expect(apiSpy).toHaveBeenCalledTimes(1);
+            expect(console.error).not.toHaveBeenCalled();
+        });
+
+        it('should emit the errors of effects in errors$', () => {
+            const effectStore = createStore({ effectRetries: 1 });
+            const errorSpy = jest.fn();
+            const sub = errors$.subscribe(errorSpy);
+
+            effectStore.effect(
+                createEffect(effectWithError(effectStore, jest.fn()), { name: 'loadEffect' })
+            );
+            dispatchLoad(effectStore, 3);
+
+            expect(errorSpy.mock.calls).toEqual([
+                [{ error: new Error('API error'), storeName: 'Store', effectName: 'loadEffect' }],
+                [{ error: new Error('API error'), storeName: 'Store', effectName: 'loadEffect' }],
+            ]);
+
+            sub.unsubscribe();
+        });
+
+        it('should emit the errors of its own effects and FeatureStores in errors$ of the store', () => {
+            const effectStore = createStore({ effectRetries: 0 });
+            const otherStore = createStore({ effectRetries: 0 });
+            const errorSpy = jest.fn();
+            const otherErrorSpy = jest.fn();
+            effectStore.errors$.subscribe(errorSpy);
+            otherStore.errors$.subscribe(otherErrorSpy);
+
+            effectStore.effect(effectWithError(effectStore, jest.fn()));
+            const fs = createFeatureStore('errorsFs', {}, { store: effectStore });
+            const load = fs.effect<void>(
+                map(() => {
+                    throw new Error('FeatureStore error');
+                })
+            );
+            dispatchLoad(effectStore, 1);
+            load();
+
+            expect(errorSpy.mock.calls).toEqual([
+                [{ error: new Error('API error'), storeName: 'Store', effectName: undefined }],
+                [
+                    {
+                        error: new Error('FeatureStore error'),
+                        storeName: 'errorsFs',
+                        effectName: undefined,
+                    },
+                ],
+            ]);
+            expect(otherErrorSpy).not.toHaveBeenCalled();
+        });
+
+        it('should not handle errors if useEffectsErrorHandler is false', () => {
+            const effectStore = createStore();
+            const apiSpy = jest.fn();
+            const errorSpy = jest.fn();
+            const sub = errors$.subscribe(errorSpy);
+
+            effectStore.effect(
+                createEffect(effectWithError(effectStore, apiSpy), {
+                    useEffectsErrorHandler: false,
+                })
+            );
+
+            dispatchLoad(effectStore, 3);
+
+            expect(apiSpy).toHaveBeenCalledTimes(1);
+            expect(errorSpy).not.toHaveBeenCalled();
+
+            sub.unsubscribe();
+        });
+    });
+
+    describe('Batch', () => {
+        it('should update state only once for a batch of actions', () => {
+            const batchStore = createStore({ reducers: { counter: counterReducer } });
+            const spy = jest.fn();
+            batchStore.select((state) => state['counter'].counter).subscribe(spy);
+
+            batchStore.dispatchBatch([{ type: 'counter' }, { type: 'counter' }]);
+            batchStore.batch(() => {
+                batchStore.dispatch({ type: 'counter' });
+                batchStore.dispatch({ type: 'counter' });
+                batchStore.dispatch({ type: 'counter' });
+            });
+
+            expect(spy.mock.calls).toEqual([[1], [3], [6]]);
+        });
+
+        it('should emit the single actions of a batch to effects', () => {
+            const batchStore = createStore({ reducers: { counter: counterReducer } });
+            const spy = jest.fn();
+            batchStore.actions$.subscribe(spy);
+
+            batchStore.batch(() => {
+                batchStore.dispatch({ type: 'counter' });
+                batchStore.batch(() => batchStore.dispatch({ type: 'nested' }));
+            });
+
+            expect(spy.mock.calls).toEqual([[{ type: 'counter' }], [{ type: 'nested' }]]);
+        });
+
+        it('should drop the actions of a batch which throws', () => {
+            const batchStore = createStore({ reducers: { counter: counterReducer } });
+            const spy = jest.fn();
+            batchStore.select((state) => state['counter'].counter).subscribe(spy);
+
+            expect(() =>
+                batchStore.batch(() => {
+                    batchStore.dispatch({ type: 'counter' });
+                    throw new Error('Batch failed');
+                })
+            ).toThrowError('Batch failed');
+
+            batchStore.batch(() => {
+                batchStore.dispatch({ type: 'counter' });
+                try {
+                    batchStore.batch(() => {
+                        batchStore.dispatch({ type: 'counter' });
+                        throw new Error('Nested batch failed');
+                    });
+                } catch {
+                    // The outer batch continues without the actions of the nested batch
+                }
+            });
+
+            expect(spy.mock.calls).toEqual([[1], [2]]);
+        });
+
+        it('should pass a batch as one action to meta reducers', () => {
+            const metaReducerSpy = jest.fn();
+            const batchStore = createStore({
+                reducers: { counter: counterReducer },
+                metaReducers: [
+                    (reducer) => (state, action) => {
+                        metaReducerSpy(action.type);
+                        return reducer(state, action);
+                    },
+                ],
+            });
+
+            batchStore.dispatchBatch([{ type: 'counter' }, { type: 'counter' }]);
+
+            expect(metaReducerSpy.mock.calls).toEqual([['@mini-rx/init'], ['@mini-rx/batch']]);
+        });
+    });
+
+    describe('Interceptors', () => {
+        it('should rewrite actions', () => {
+            const interceptedStore = createStore({
+                reducers: { counter: counterReducer },
+                interceptors: [
+                    // Map a deprecated action type to the new one
+                    (action, next) =>
+                        next(
+                            action.type === 'oldCounter' ? { ...action, type: 'counter' } : action
+                        ),
+                ],
+            });
+            const spy = jest.fn();
+            interceptedStore.actions$.subscribe(spy);
+
+            interceptedStore.dispatch({ type: 'oldCounter' });
+
+            expect(spy).toHaveBeenCalledWith({ type: 'counter' });
+            expect(spy).not.toHaveBeenCalledWith({ type: 'oldCounter' });
+        });
+
+        it('should drop actions', () => {
+            const interceptedStore = createStore({
+                reducers: { counter: counterReducer },
+                interceptors: [(action, next) => action.type !== 'forbidden' && next(action)],
+            });
+            const actionsSpy = jest.fn();
+            const stateSpy = jest.fn();
+            interceptedStore.actions$.subscribe(actionsSpy);
+            interceptedStore.select((state) => state['counter']).subscribe(stateSpy);
+
+            interceptedStore.dispatch({ type: 'forbidden' });
+
+            expect(actionsSpy).not.toHaveBeenCalled();
+            expect(stateSpy.mock.calls).toEqual([[counterInitialState]]);
+        });
+
+        it('should dispatch other actions', () => {
+            const interceptedStore = createStore({
+                reducers: { counter: counterReducer },
+                interceptors: [
+                    (action, next, api) => {
+                        if (action.type === 'counterTwice') {
+                            api.dispatch({ type: 'counter' });
+                            api.dispatch({ type: 'counter' });
+                            return;
+                        }
+                        next({ ...action, counterBefore: api.getState()?.['counter'].counter });
+                    },
+                ],
+            });
+            const spy = jest.fn();
+            interceptedStore.actions$.subscribe(spy);
+
+            interceptedStore.dispatch({ type: 'counterTwice' });
+
+            expect(spy.mock.calls).toEqual([
+                [{ type: 'counter', counterBefore: 1 }],
+                [{ type: 'counter', counterBefore: 2 }],
+            ]);
+        });
+
+        it('should call the interceptors in order and allow delaying actions', () => {
+            jest.useFakeTimers();
+
+            const callOrder: string[] = [];
+            const interceptedStore = createStore({
+                interceptors: [
+                    (action, next) => {
+                        callOrder.push('first: ' + action.type);
+                        action.type === 'delayed'
+                            ? setTimeout(() => next(action), 100)
+                            : next(action);
+                    },
+                    (action, next) => {
+                        callOrder.push('second: ' + action.type);
+                        next(action);
+                    },
+                ],
+            });
+            const spy = jest.fn();
+            interceptedStore.actions$.subscribe(spy);
+
+            interceptedStore.dispatch({ type: 'delayed' });
+
+            expect(callOrder).toEqual([
+                'first: @mini-rx/init',
+                'second: @mini-rx/init',
+                'first: delayed',
+            ]);
+            expect(spy).not.toHaveBeenCalled();
+
+            jest.advanceTimersByTime(100);
+
+            expect(callOrder[3]).toBe('second: delayed');
+            expect(spy).toHaveBeenCalledWith({ type: 'delayed' });
+
+            jest.useRealTimers();
+        });
+
+        it('should intercept every action of a batch', () => {
+            const interceptedStore = createStore({
+                reducers: { counter: counterReducer },
+                interceptors: [(action, next) => action.type !== 'forbidden' && next(action)],
+            });
+            const spy = jest.fn();
+            interceptedStore.select((state) => state['counter'].counter).subscribe(spy);
+
+            interceptedStore.dispatchBatch([
+                { type: 'counter' },
+                { type: 'forbidden' },
+                { type: 'counter' },
+            ]);
+
+            expect(spy.mock.calls).toEqual([[1], [3]]);
+        });
+    });
+});
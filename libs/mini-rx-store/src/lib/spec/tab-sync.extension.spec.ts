@@ -0,0 +1,256 @@
+import {
+    createInMemoryChannelHub,
+    TabSyncExtension,
+    TabSyncMessage,
+} from '../extensions/tab-sync.extension';
+import { Action } from '../models';
+import { createStore, Store } from '../store';
+import { createFeatureStore } from '../feature-store';
+import { ofType } from '../utils';
+
+interface UserState {
+    name: string;
+}
+
+function userReducer(state: UserState = { name: 'Anonymous' }, action: Action): UserState {
+    return action.type === 'rename' ? { name: action['name'] } : state;
+}
+
+function counterReducer(state = 1, action: Action): number {
+    return action.type === 'increment' ? state + 1 : state;
+}
+
+const heartbeatInterval = 100;
+
+describe('TabSyncExtension', () => {
+    let hub: ReturnType<typeof createInMemoryChannelHub>;
+    let extensions: TabSyncExtension[];
+
+    function createTab(tabId: string, reducers = { user: userReducer, counter: counterReducer }) {
+        const extension = new TabSyncExtension({
+            featureKeys: ['user', 'userFs'],
+            channel: hub.createChannel(),
+            heartbeatInterval,
+            tabId,
+        });
+        extensions.push(extension);
+        const store = createStore({ reducers, extensions: [extension] });
+        return { store, extension };
+    }
+
+    function getState(store: Store) {
+        let state: any;
+        store.select((v) => v).subscribe((v) => (state = v));
+        return state;
+    }
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        hub = createInMemoryChannelHub();
+        extensions = [];
+    });
+
+    afterEach(() => {
+        extensions.forEach((extension) => extension.close());
+        jest.useRealTimers();
+    });
+
+    it('should apply the actions of synchronized features in the other tabs', () => {
+        const tabA = createTab('a');
+        const tabB = createTab('b');
+        const actionsSpy = jest.fn();
+        tabB.store.actions$.pipe(ofType('rename')).subscribe(actionsSpy);
+
+        tabA.store.dispatch({ type: 'rename', name: 'Cage' });
+
+        expect(getState(tabB.store).user).toEqual({ name: 'Cage' });
+        // The effects of tab B do not react to the action (e.g. HTTP requests are not repeated)
+        expect(actionsSpy).not.toHaveBeenCalled();
+    });
+
+    it('should not pass the actions of other tabs to the interceptors', () => {
+        const tabA = createTab('a');
+        const interceptorSpy = jest.fn();
+        const extension = new TabSyncExtension({
+            featureKeys: ['user'],
+            channel: hub.createChannel(),
+            heartbeatInterval,
+            tabId: 'b',
+        });
+        extensions.push(extension);
+        const storeB = createStore({
+            reducers: { user: userReducer },
+            extensions: [extension],
+            interceptors: [
+                (action, next) => {
+                    interceptorSpy(action);
+                    // Interceptors can return new action objects
+                    next({ ...action });
+                },
+            ],
+        });
+        const rawChannel = hub.createChannel();
+        const messages: TabSyncMessage[] = [];
+        rawChannel.onMessage((message) => messages.push(message));
+
+        tabA.store.dispatch({ type: 'rename', name: 'Cage' });
+
+        expect(getState(storeB).user).toEqual({ name: 'Cage' });
+        expect(interceptorSpy).not.toHaveBeenCalledWith({ type: 'rename', name: 'Cage' });
+        // The applied action is not broadcast again by tab B
+        expect(messages).toEqual([
+            { type: 'action', tabId: 'a', action: { type: 'rename', name: 'Cage' } },
+        ]);
+    });
+
+    it('should not synchronize other features', () => {
+        const tabA = createTab('a');
+        const tabB = createTab('b');
+
+        tabA.store.dispatch({ type: 'increment' });
+
+        expect(getState(tabA.store).counter).toBe(2);
+        expect(getState(tabB.store).counter).toBe(1);
+    });
+
+    it('should not change other features with the actions of other tabs', () => {
+        // The counter reacts to the actions of the synchronized user feature
+        const reducers = {
+            user: userReducer,
+            counter: (state = 1, action: Action) => (action.type === 'rename' ? state + 1 : state),
+        };
+        const tabA = createTab('a', reducers);
+        const tabB = createTab('b', reducers);
+
+        tabA.store.dispatch({ type: 'rename', name: 'Cage' });
+
+        expect(getState(tabA.store).counter).toBe(2);
+        expect(getState(tabB.store)).toEqual({ user: { name: 'Cage' }, counter: 1 });
+    });
+
+    it('should not broadcast the applied actions again', () => {
+        const tabA = createTab('a');
+        createTab('b');
+        const rawChannel = hub.createChannel();
+        const messages: TabSyncMessage[] = [];
+        rawChannel.onMessage((message) => messages.push(message));
+
+        tabA.store.dispatch({ type: 'rename', name: 'Cage' });
+
+        expect(messages).toEqual([
+            { type: 'action', tabId: 'a', action: { type: 'rename', name: 'Cage' } },
+        ]);
+    });
+
+    it('should synchronize FeatureStore setState', () => {
+        const tabA = createTab('a');
+        const tabB = createTab('b');
+        const fsA = createFeatureStore('userFs', { name: 'Anonymous' }, { store: tabA.store });
+        const fsB = createFeatureStore('userFs', { name: 'Anonymous' }, { store: tabB.store });
+
+        fsA.setState((state) => ({ name: state.name + ' Cage' }));
+
+        expect(fsB.state).toEqual({ name: 'Anonymous Cage' });
+    });
+
+    it('should resolve the initial state of a new tab', () => {
+        const tabA = createTab('a');
+        tabA.store.dispatch({ type: 'rename', name: 'Cage' });
+        createFeatureStore('userFs', { name: 'Nicolas' }, { store: tabA.store });
+
+        const tabB = createTab('b');
+        expect(getState(tabB.store).user).toEqual({ name: 'Cage' });
+
+        // The feature is added later in the new tab
+        const fsB = createFeatureStore('userFs', { name: 'Anonymous' }, { store: tabB.store });
+        expect(fsB.state).toEqual({ name: 'Nicolas' });
+    });
+
+    it('should prefer the initial state of the oldest tab', () => {
+        // Another new tab which answers first with its initial state
+        const newTabChannel = hub.createChannel();
+        newTabChannel.onMessage((message) => {
+            if (message.type === 'hello') {
+                newTabChannel.postMessage({
+                    type: 'welcome',
+                    tab: { id: 'new', startedAt: Date.now() + 1000 },
+                    to: message.tab.id,
+                    state: { user: { name: 'Anonymous' } },
+                });
+            }
+        });
+
+        const tabA = createTab('a');
+        jest.advanceTimersByTime(heartbeatInterval);
+        tabA.store.dispatch({ type: 'rename', name: 'Cage' });
+
+        const tabB = createTab('b');
+        expect(getState(tabB.store).user).toEqual({ name: 'Cage' });
+    });
+
+    it('should elect the oldest tab as leader', () => {
+        const tabA = createTab('a');
+        const isLeaderSpyA = jest.fn();
+        tabA.extension.isLeader$.subscribe(isLeaderSpyA);
+
+        jest.advanceTimersByTime(heartbeatInterval);
+        expect(isLeaderSpyA.mock.calls).toEqual([[false], [true]]);
+
+        const tabB = createTab('b');
+        const isLeaderSpyB = jest.fn();
+        tabB.extension.isLeader$.subscribe(isLeaderSpyB);
+
+        jest.advanceTimersByTime(heartbeatInterval);
+        expect(isLeaderSpyA).toHaveBeenLastCalledWith(true);
+        expect(isLeaderSpyB.mock.calls).toEqual([[false]]);
+
+        tabA.extension.close();
+        expect(isLeaderSpyA).toHaveBeenLastCalledWith(false);
+        expect(isLeaderSpyB).toHaveBeenLastCalledWith(true);
+    });
+
+    it('should remove tabs without heartbeat', () => {
+        const tabA = createTab('a');
+        const isLeaderSpy = jest.fn();
+        tabA.extension.isLeader$.subscribe(isLeaderSpy);
+
+        // An older tab which stops sending heartbeats (e.g. the browser crashed)
+        hub.createChannel().postMessage({ type: 'hello', tab: { id: 'old', startedAt: 0 } });
+
+        jest.advanceTimersByTime(heartbeatInterval);
+        expect(isLeaderSpy).toHaveBeenLastCalledWith(false);
+
+        jest.advanceTimersByTime(heartbeatInterval * 3);
+        expect(isLeaderSpy).toHaveBeenLastCalledWith(true);
+    });
+
+    it('should run effects only in the leader tab', () => {
+        const tabA = createTab('a');
+        const tabB = createTab('b');
+        const spyA = jest.fn();
+        const spyB = jest.fn();
+
+        tabA.extension.leaderOnly(tabA.store.actions$.pipe(ofType('rename'))).subscribe(spyA);
+        tabB.extension.leaderOnly(tabB.store.actions$.pipe(ofType('rename'))).subscribe(spyB);
+        jest.advanceTimersByTime(heartbeatInterval);
+
+        tabA.store.dispatch({ type: 'rename', name: 'Cage' });
+        tabB.store.dispatch({ type: 'rename', name: 'Nicolas' });
+
+        expect(spyA).toHaveBeenCalledTimes(1);
+        expect(spyB).not.toHaveBeenCalled();
+    });
+
+    it('should not send messages after close', () => {
+        const tabA = createTab('a');
+        const rawChannel = hub.createChannel();
+        const messages: TabSyncMessage[] = [];
+        rawChannel.onMessage((message) => messages.push(message));
+
+        tabA.extension.close();
+        tabA.store.dispatch({ type: 'rename', name: 'Cage' });
+        jest.advanceTimersByTime(heartbeatInterval);
+
+        expect(messages).toEqual([{ type: 'bye', tabId: 'a' }]);
+    });
+});
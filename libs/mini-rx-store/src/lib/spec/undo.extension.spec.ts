@@ -13,9 +13,11 @@ import {
 import { UndoExtension } from '../extensions/undo.extension';
 import { FeatureStore } from '../feature-store';
 import { Observable } from 'rxjs';
-import { undo } from '../actions';
+import { redo, undo, undoLast } from '../actions';
 import { addExtension, addFeature, removeFeature } from '../store-core';
 import { createComponentStore } from '../component-store';
+import { createFeatureStore } from '../feature-store';
+import { createStore } from '../store';
 
 class MyFeatureStore extends FeatureStore<CounterStringState> {
     count$: Observable<string> = this.select((state) => state.counter);
@@ -283,4 +285,211 @@ describe('Undo Extension', () => {
             );
         });
     });
+
+    describe('Undo History', () => {
+        function setup() {
+            const store = createStore({ extensions: [new UndoExtension()] });
+            const fs = createFeatureStore('undoHistory', counterStringInitialState, { store });
+            const otherFs = createFeatureStore('otherUndoHistory', counterStringInitialState, {
+                store,
+            });
+            const add = (v: string) => fs.setState((state) => ({ counter: state.counter + v }));
+            return { fs, otherFs, add };
+        }
+
+        it('should undo the last actions and redo them', () => {
+            const { fs, add } = setup();
+
+            add('2');
+            add('3');
+            add('4');
+
+            fs.undoLast();
+            expect(fs.state.counter).toBe('123');
+
+            fs.undoLast(2);
+            expect(fs.state.counter).toBe('1');
+
+            fs.redo();
+            expect(fs.state.counter).toBe('12');
+
+            fs.redo(5);
+            expect(fs.state.counter).toBe('1234');
+        });
+
+        it('should clear the redo stack after a new action', () => {
+            const { fs, add } = setup();
+            const canRedoSpy = jest.fn();
+            fs.canRedo$.subscribe(canRedoSpy);
+
+            add('2');
+            fs.undoLast();
+            add('3');
+            fs.redo();
+
+            expect(fs.state.counter).toBe('13');
+            expect(canRedoSpy.mock.calls).toEqual([[false], [true], [false]]);
+        });
+
+        it('should only undo the actions of the FeatureStore', () => {
+            const { fs, otherFs, add } = setup();
+
+            add('2');
+            otherFs.setState({ counter: 'other' });
+
+            fs.undoLast();
+
+            expect(fs.state.counter).toBe('1');
+            expect(otherFs.state.counter).toBe('other');
+        });
+
+        it('should undo a group of actions as one unit', () => {
+            const { fs, add } = setup();
+
+            add('2');
+            fs.undoGroup(() => {
+                add('3');
+                add('4');
+            });
+
+            fs.undoLast();
+            expect(fs.state.counter).toBe('12');
+
+            fs.redo();
+            expect(fs.state.counter).toBe('1234');
+        });
+
+        it('should undo a batch as one unit', () => {
+            const { fs, add } = setup();
+
+            add('2');
+            fs.batch(() => {
+                add('3');
+                add('4');
+            });
+
+            fs.undoLast();
+            expect(fs.state.counter).toBe('12');
+
+            fs.redo();
+            expect(fs.state.counter).toBe('1234');
+        });
+
+        it('should undo a single action of a batch', () => {
+            const { fs, add } = setup();
+
+            const actions: Action[] = [];
+            fs.batch(() => {
+                actions.push(add('2'), add('3'), add('4'));
+            });
+
+            fs.undo(actions[1]);
+            expect(fs.state.counter).toBe('124');
+
+            fs.undoLast();
+            expect(fs.state.counter).toBe('1');
+        });
+
+        it('should undo to a checkpoint', () => {
+            const { fs, add } = setup();
+
+            add('2');
+            fs.checkpoint('saved');
+            add('3');
+            add('4');
+
+            fs.undoToCheckpoint('saved');
+            expect(fs.state.counter).toBe('12');
+
+            fs.undoToCheckpoint('unknown');
+            expect(fs.state.counter).toBe('12');
+        });
+
+        it('should emit the history', () => {
+            const { fs, add } = setup();
+            const canUndoSpy = jest.fn();
+            const historySpy = jest.fn();
+            fs.canUndo$.subscribe(canUndoSpy);
+            fs.history$.subscribe(historySpy);
+
+            const action2 = add('2');
+            fs.checkpoint('cp');
+            const action3 = add('3');
+            fs.undoLast();
+
+            expect(canUndoSpy.mock.calls).toEqual([[false], [true]]);
+            expect(historySpy).toHaveBeenLastCalledWith({
+                past: [[action2]],
+                future: [[action3]],
+                checkpoints: ['cp'],
+            });
+        });
+
+        it('should emit the history after the state has been updated', () => {
+            const { fs, add } = setup();
+            const statesOnHistoryChange: string[] = [];
+            fs.history$.subscribe(() => statesOnHistoryChange.push(fs.state.counter));
+
+            add('2');
+            add('3');
+            fs.undoLast();
+
+            expect(statesOnHistoryChange).toEqual(['1', '12', '123', '12']);
+        });
+
+        it('should emit an empty history without UndoExtension', () => {
+            const fs = createFeatureStore('noUndoHistory', counterInitialState, {
+                store: createStore(),
+            });
+            const spy = jest.fn();
+            fs.canUndo$.subscribe(spy);
+
+            expect(spy.mock.calls).toEqual([[false]]);
+            expect(() => fs.undoLast()).toThrow();
+        });
+
+        it('should support undo/redo in the ComponentStore', () => {
+            const cs = createComponentStore(counterStringInitialState, {
+                extensions: [new UndoExtension()],
+            });
+            const canUndoSpy = jest.fn();
+            const canRedoSpy = jest.fn();
+            cs.canUndo$.subscribe(canUndoSpy);
+            cs.canRedo$.subscribe(canRedoSpy);
+
+            cs.setState({ counter: '2' });
+            cs.undoGroup(() => {
+                cs.setState({ counter: '3' });
+                cs.setState({ counter: '4' });
+            });
+
+            cs.undoLast();
+            expect(cs.state.counter).toBe('2');
+
+            cs.undoLast();
+            expect(cs.state.counter).toBe('1');
+
+            cs.redo(2);
+            expect(cs.state.counter).toBe('4');
+
+            expect(canUndoSpy.mock.calls).toEqual([[false], [true], [false], [true]]);
+            expect(canRedoSpy.mock.calls).toEqual([[false], [true], [false]]);
+        });
+
+        it('should undo and redo Redux actions', () => {
+            const store = createStore({
+                reducers: { counter: counterReducer },
+                extensions: [new UndoExtension()],
+            });
+            const spy = jest.fn();
+            store.select((state) => state['counter'].counter).subscribe(spy);
+
+            store.dispatch({ type: 'counter' });
+            store.dispatch({ type: 'counter' });
+            store.dispatch(undoLast(2));
+            store.dispatch(redo());
+
+            expect(spy.mock.calls).toEqual([[1], [2], [3], [1], [2]]);
+        });
+    });
 });
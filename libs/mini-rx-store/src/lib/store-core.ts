@@ -1,4 +1,4 @@
-import { Observable } from 'rxjs';
+import { mergeMap, Observable, Subject, Subscription } from 'rxjs';
 import {
     Action,
     Actions,
@@ -6,6 +6,9 @@ import {
     CombineReducersFn,
     EFFECT_METADATA_KEY,
     EffectConfig,
+    EffectError,
+    EffectRegistrationConfig,
+    ExtensionHost,
     ExtensionId,
     HasEffectMetadata,
     MetaReducer,
@@ -14,136 +17,365 @@ import {
     StoreConfig,
     StoreExtension,
 } from './models';
-import { combineMetaReducers, hasEffectMetaData, miniRxError, sortExtensions } from './utils';
+import {
+    combineMetaReducers,
+    createBatchReducer,
+    createInterceptorChain,
+    hasEffectMetaData,
+    miniRxError,
+    sortExtensions,
+} from './utils';
 import { defaultEffectsErrorHandler } from './default-effects-error-handler';
 import { combineReducers as defaultCombineReducers } from './combine-reducers';
-import { createMiniRxAction, MiniRxActionType } from './actions';
+import {
+    createImportStateAction,
+    createMiniRxAction,
+    isImportStateAction,
+    MiniRxActionType,
+    unpackBatchAction,
+} from './actions';
 import { State } from './state';
 import { ActionsOnQueue } from './actions-on-queue';
+import { createStateSnapshot, parseStateSnapshot, SerializerRegistry } from './serializer';
+import { createSelectSignal } from './signals';
 
-export let hasUndoExtension = false;
-let isStoreInitialized = false;
-
-// REDUCER STATE
-// exported for testing purposes
-export const reducerState = new State<{
+interface ReducerState {
     featureReducers: ReducerDictionary<AppState>;
     metaReducers: MetaReducer<AppState>[];
     combineReducersFn: CombineReducersFn<AppState>;
-}>();
+}
 
-const reducer$: Observable<Reducer<AppState>> = reducerState.select((v) => {
-    const combinedMetaReducer: MetaReducer<AppState> = combineMetaReducers(v.metaReducers);
-    const combinedReducer: Reducer<AppState> = v.combineReducersFn(v.featureReducers);
-    return combinedMetaReducer(combinedReducer);
-});
+// StoreCore holds everything which belongs to one Redux Store instance:
+// actions, reducers, extensions and the app state
+// Every instance is fully isolated from other instances
+export class StoreCore implements ExtensionHost {
+    private _hasUndoExtension = false;
+    get hasUndoExtension(): boolean {
+        return this._hasUndoExtension;
+    }
 
-function hasFeatureReducers(): boolean {
-    return !!Object.keys(reducerState.get()!.featureReducers).length;
-}
+    private isStoreInitialized = false;
 
-function checkFeatureExists(featureKey: string) {
-    if (reducerState.get()!.featureReducers.hasOwnProperty(featureKey)) {
-        miniRxError(`Feature "${featureKey}" already exists.`);
+    private _effectRetries?: number;
+    // Used for the effects of the store and its FeatureStores
+    get effectRetries(): number | undefined {
+        return this._effectRetries;
     }
-}
 
-function addReducer(featureKey: string, reducer: Reducer<any>) {
-    initStore();
+    private _serializer?: SerializerRegistry;
+    // Used by `exportState`/`importState` and the extensions
+    get serializer(): SerializerRegistry | undefined {
+        return this._serializer;
+    }
 
-    checkFeatureExists(featureKey);
+    // The errors of the effects of the store and its FeatureStores
+    // public for FeatureStores: they report the errors of their effects to the store
+    readonly effectErrors = new Subject<EffectError>();
+    readonly errors$: Observable<EffectError> = this.effectErrors.asObservable();
 
-    reducerState.patch((state) => ({
-        featureReducers: { ...state.featureReducers, [featureKey]: reducer },
-    }));
-}
+    // Subscriptions of the effects which are scoped to a feature (see `removeFeature`)
+    private featureEffects = new Map<string, Subscription>();
 
-function removeReducer(featureKey: string) {
-    reducerState.patch((state) => ({
-        featureReducers: omit(state.featureReducers, featureKey) as ReducerDictionary<AppState>,
-    }));
-}
+    // REDUCER STATE
+    // public for testing purposes
+    readonly reducerState = new State<ReducerState>();
 
-// exported for testing purposes
-export function addMetaReducers(...reducers: MetaReducer<AppState>[]) {
-    reducerState.patch((state) => ({
-        metaReducers: [...state.metaReducers, ...reducers],
-    }));
-}
+    // See `wrapFeatureReducers`
+    private featureReducerWrappers: ((
+        reducer: Reducer<any>,
+        featureKey: string
+    ) => Reducer<any>)[] = [];
 
-function updateCombineReducersFn(combineReducersFn: CombineReducersFn<AppState>) {
-    reducerState.patch({ combineReducersFn });
-}
+    private reducer$: Observable<Reducer<AppState>> = this.reducerState.select((v) => {
+        const combinedMetaReducer: MetaReducer<AppState> = combineMetaReducers(v.metaReducers);
+        const combinedReducer: Reducer<AppState> = createImportStateReducer(
+            v.combineReducersFn(this.applyFeatureReducerWrappers(v.featureReducers))
+        );
+        // Meta reducers (e.g. of the extensions) see a batch action as one action
+        return combinedMetaReducer(createBatchReducer(combinedReducer));
+    });
+
+    // ACTIONS
+    private actionsOnQueue = new ActionsOnQueue();
+    // Batch actions are unpacked: e.g. effects can react to the single actions of a batch
+    readonly actions$: Actions = this.actionsOnQueue.actions$.pipe(mergeMap(unpackBatchAction));
+
+    // APP STATE
+    readonly appState = new State<AppState>();
+    // Signals require `configureSignals` (e.g. with the `signal` and `computed` functions of Angular)
+    readonly selectSignal = createSelectSignal(this.appState.select());
+
+    // Dispatches actions through the interceptors (see `StoreConfig.interceptors`) to the actions queue
+    private dispatchFn = (action: Action) => this.actionsOnQueue.dispatch(action);
+
+    configureStore(config: StoreConfig<AppState> = {}) {
+        this.initStore();
+
+        if (this.hasFeatureReducers()) {
+            miniRxError(
+                '`configureStore` detected reducers. Did you instantiate FeatureStores before calling `configureStore`?'
+            );
+        }
+
+        if (config.combineReducersFn) {
+            this.updateCombineReducersFn(config.combineReducersFn);
+        }
+
+        this._effectRetries = config.effectRetries;
+        this._serializer = config.serializer;
+
+        if (config.interceptors?.length) {
+            this.dispatchFn = createInterceptorChain(
+                config.interceptors,
+                {
+                    dispatch: (action) => this.dispatch(action),
+                    getState: () => this.appState.get(),
+                },
+                this.dispatchFn
+            );
+        }
 
-// ACTIONS
-const actionsOnQueue = new ActionsOnQueue();
-export const actions$: Actions = actionsOnQueue.actions$;
+        if (config.metaReducers?.length) {
+            this.addMetaReducers(...config.metaReducers);
+        }
+
+        if (config.extensions?.length) {
+            const sortedExtensions: StoreExtension[] = sortExtensions(config.extensions);
+            sortedExtensions.forEach((extension) => this.addExtension(extension));
+        }
 
-// APP STATE
-export const appState = new State<AppState>();
+        if (config.reducers) {
+            Object.keys(config.reducers).forEach((featureKey) => {
+                this.addReducer(featureKey, config.reducers![featureKey]); // config.reducers! (prevent TS2532: Object is possibly 'undefined')
+            });
+        }
 
-// Wire up the Redux Store: Init reducer state, subscribe to the actions and reducer Observable
-// Called by `configureStore` and `addReducer`
-function initStore() {
-    if (isStoreInitialized) {
-        return;
+        if (config.initialState) {
+            this.appState.set(config.initialState);
+        }
+
+        this.dispatch(createMiniRxAction(MiniRxActionType.INIT));
     }
 
-    reducerState.set({
-        featureReducers: {},
-        metaReducers: [],
-        combineReducersFn: defaultCombineReducers,
-    });
+    addFeature<StateType>(
+        featureKey: string,
+        reducer: Reducer<StateType>,
+        config: {
+            metaReducers?: MetaReducer<StateType>[];
+            initialState?: StateType;
+        } = {}
+    ): void {
+        reducer = config.metaReducers?.length
+            ? combineMetaReducers<StateType>(config.metaReducers)(reducer)
+            : reducer;
+
+        if (typeof config.initialState !== 'undefined') {
+            reducer = createReducerWithInitialState(reducer, config.initialState);
+        }
 
-    let reducer: Reducer<AppState>;
-    // 👇 We could use `withLatestFrom` inside actionsOnQueue.actions$.pipe, but fewer operators = less bundle-size :)
-    reducer$.subscribe((v) => (reducer = v));
+        this.addReducer(featureKey, reducer);
+        this.dispatch(createMiniRxAction(MiniRxActionType.INIT, featureKey));
+    }
 
-    // Listen to the Actions stream and update state accordingly
-    actionsOnQueue.actions$.subscribe((action) => {
-        const newState: AppState = reducer(
-            appState.get()!, // Initially undefined, but the reducer can handle undefined (by falling back to initial state)
-            action
-        );
-        appState.set(newState);
-    });
+    removeFeature(featureKey: string) {
+        this.removeReducer(featureKey);
+        this.dispatch(createMiniRxAction(MiniRxActionType.DESTROY, featureKey));
 
-    isStoreInitialized = true;
-}
+        // Stop the feature effects after the destroy action: the effects can still react to it
+        this.featureEffects.get(featureKey)?.unsubscribe();
+        this.featureEffects.delete(featureKey);
+    }
 
-export function configureStore(config: StoreConfig<AppState> = {}) {
-    initStore();
+    effect(
+        effect$: Observable<any> & HasEffectMetadata,
+        config?: EffectRegistrationConfig
+    ): Subscription;
+    effect(effect$: Observable<Action>, config?: EffectRegistrationConfig): Subscription;
+    effect(effect$: any, config: EffectRegistrationConfig = {}): Subscription {
+        const metaData: EffectConfig | undefined = hasEffectMetaData(effect$)
+            ? effect$[EFFECT_METADATA_KEY]
+            : undefined;
+        const shouldDispatch = metaData ? !!metaData.dispatch : true;
+
+        const effectWithErrorHandler$: Observable<Action> =
+            metaData?.useEffectsErrorHandler === false
+                ? effect$
+                : defaultEffectsErrorHandler(effect$, {
+                      retries: metaData?.retries ?? this.effectRetries,
+                      storeName: 'Store',
+                      effectName: metaData?.name,
+                      errors: this.effectErrors,
+                  });
+        const subscription = effectWithErrorHandler$.subscribe((action) => {
+            if (shouldDispatch) {
+                this.dispatch(action);
+            }
+        });
+
+        if (config.featureKey) {
+            const featureKey = config.featureKey;
+            if (!this.featureEffects.has(featureKey)) {
+                this.featureEffects.set(featureKey, new Subscription());
+            }
+            this.featureEffects.get(featureKey)!.add(subscription);
+        }
+
+        return subscription;
+    }
+
+    // public for testing purposes
+    addExtension(extension: StoreExtension) {
+        const metaReducer: MetaReducer<any> | void = extension.init(this);
+
+        if (metaReducer) {
+            this.addMetaReducers(metaReducer);
+        }
+
+        if (extension.id === ExtensionId.UNDO) {
+            this._hasUndoExtension = true;
+        }
+    }
+
+    // Used by extensions (e.g. PerformanceExtension): the wrappers are applied when the reducers change
+    wrapFeatureReducers(wrapper: (reducer: Reducer<any>, featureKey: string) => Reducer<any>) {
+        this.featureReducerWrappers.push(wrapper);
+    }
 
-    if (hasFeatureReducers()) {
-        miniRxError(
-            '`configureStore` detected reducers. Did you instantiate FeatureStores before calling `configureStore`?'
+    // Used by extensions (e.g. ReduxDevtoolsExtension): the reducer without meta reducers and feature reducer wrappers
+    getPlainReducer(): Reducer<AppState> {
+        const { combineReducersFn, featureReducers } = this.reducerState.get()!;
+        return createBatchReducer(createImportStateReducer(combineReducersFn(featureReducers)));
+    }
+
+    // public for testing purposes
+    addMetaReducers(...reducers: MetaReducer<AppState>[]) {
+        this.reducerState.patch((state) => ({
+            metaReducers: [...state.metaReducers, ...reducers],
+        }));
+    }
+
+    dispatch(action: Action) {
+        this.dispatchFn(action);
+    }
+
+    // All actions dispatched inside `fn` are dispatched as one batch action
+    batch(fn: () => void) {
+        this.actionsOnQueue.batch(fn);
+    }
+
+    dispatchBatch(actions: Action[]) {
+        // Every action passes the interceptors
+        this.batch(() => actions.forEach((action) => this.dispatch(action)));
+    }
+
+    exportState(): string {
+        return createStateSnapshot(this.appState.get(), this.serializer);
+    }
+
+    // Replaces the state of the features in the snapshot (the other features keep their state)
+    importState(snapshot: string) {
+        const state = parseStateSnapshot(snapshot, this.serializer);
+
+        const featureReducers = this.reducerState.get()!.featureReducers;
+        const unknownFeatureKey = Object.keys(state).find(
+            (featureKey) => !Object.prototype.hasOwnProperty.call(featureReducers, featureKey)
         );
+        if (unknownFeatureKey) {
+            miniRxError(`importState: The feature "${unknownFeatureKey}" does not exist.`);
+        }
+
+        this.dispatch(createImportStateAction(state));
     }
 
-    if (config.combineReducersFn) {
-        updateCombineReducersFn(config.combineReducersFn);
+    private hasFeatureReducers(): boolean {
+        return !!Object.keys(this.reducerState.get()!.featureReducers).length;
     }
 
-    if (config.metaReducers?.length) {
-        addMetaReducers(...config.metaReducers);
+    private checkFeatureExists(featureKey: string) {
+        if (this.reducerState.get()!.featureReducers.hasOwnProperty(featureKey)) {
+            miniRxError(`Feature "${featureKey}" already exists.`);
+        }
     }
 
-    if (config.extensions?.length) {
-        const sortedExtensions: StoreExtension[] = sortExtensions(config.extensions);
-        sortedExtensions.forEach((extension) => addExtension(extension));
+    private applyFeatureReducerWrappers(
+        featureReducers: ReducerDictionary<AppState>
+    ): ReducerDictionary<AppState> {
+        if (!this.featureReducerWrappers.length) {
+            return featureReducers;
+        }
+
+        return Object.keys(featureReducers).reduce((wrappedReducers, featureKey) => {
+            wrappedReducers[featureKey] = this.featureReducerWrappers.reduce(
+                (reducer, wrapper) => wrapper(reducer, featureKey),
+                featureReducers[featureKey]
+            );
+            return wrappedReducers;
+        }, {} as ReducerDictionary<AppState>);
     }
 
-    if (config.reducers) {
-        Object.keys(config.reducers).forEach((featureKey) => {
-            addReducer(featureKey, config.reducers![featureKey]); // config.reducers! (prevent TS2532: Object is possibly 'undefined')
-        });
+    private addReducer(featureKey: string, reducer: Reducer<any>) {
+        this.initStore();
+
+        this.checkFeatureExists(featureKey);
+
+        this.reducerState.patch((state) => ({
+            featureReducers: { ...state.featureReducers, [featureKey]: reducer },
+        }));
     }
 
-    if (config.initialState) {
-        appState.set(config.initialState);
+    private removeReducer(featureKey: string) {
+        this.reducerState.patch((state) => ({
+            featureReducers: omit(state.featureReducers, featureKey) as ReducerDictionary<AppState>,
+        }));
     }
 
-    dispatch(createMiniRxAction(MiniRxActionType.INIT));
+    private updateCombineReducersFn(combineReducersFn: CombineReducersFn<AppState>) {
+        this.reducerState.patch({ combineReducersFn });
+    }
+
+    // Wire up the Redux Store: Init reducer state, subscribe to the actions and reducer Observable
+    // Called by `configureStore` and `addReducer`
+    private initStore() {
+        if (this.isStoreInitialized) {
+            return;
+        }
+
+        this.reducerState.set({
+            featureReducers: {},
+            metaReducers: [],
+            combineReducersFn: defaultCombineReducers,
+        });
+
+        let reducer: Reducer<AppState>;
+        // 👇 We could use `withLatestFrom` inside actionsOnQueue.actions$.pipe, but fewer operators = less bundle-size :)
+        this.reducer$.subscribe((v) => (reducer = v));
+
+        // Listen to the Actions stream and update state accordingly
+        this.actionsOnQueue.actions$.subscribe((action) => {
+            const newState: AppState = reducer(
+                this.appState.get()!, // Initially undefined, but the reducer can handle undefined (by falling back to initial state)
+                action
+            );
+            this.appState.set(newState);
+        });
+
+        this.isStoreInitialized = true;
+    }
+}
+
+// The default StoreCore instance
+// Used by `configureStore` and by FeatureStores which are not bound to a specific store instance
+export const defaultStoreCore: StoreCore = new StoreCore();
+
+// exported for testing purposes
+export const reducerState = defaultStoreCore.reducerState;
+
+export const actions$: Actions = defaultStoreCore.actions$;
+
+export const appState: State<AppState> = defaultStoreCore.appState;
+
+export function configureStore(config: StoreConfig<AppState> = {}) {
+    defaultStoreCore.configureStore(config);
 }
 
 export function addFeature<StateType>(
@@ -154,55 +386,37 @@ export function addFeature<StateType>(
         initialState?: StateType;
     } = {}
 ): void {
-    reducer = config.metaReducers?.length
-        ? combineMetaReducers<StateType>(config.metaReducers)(reducer)
-        : reducer;
-
-    if (typeof config.initialState !== 'undefined') {
-        reducer = createReducerWithInitialState(reducer, config.initialState);
-    }
-
-    addReducer(featureKey, reducer);
-    dispatch(createMiniRxAction(MiniRxActionType.INIT, featureKey));
+    defaultStoreCore.addFeature(featureKey, reducer, config);
 }
 
 export function removeFeature(featureKey: string) {
-    removeReducer(featureKey);
-    dispatch(createMiniRxAction(MiniRxActionType.DESTROY, featureKey));
+    defaultStoreCore.removeFeature(featureKey);
 }
 
-export function effect(effect$: Observable<any> & HasEffectMetadata): void;
-export function effect(effect$: Observable<Action>): void;
-export function effect(effect$: any): void {
-    const effectWithErrorHandler$: Observable<Action> = defaultEffectsErrorHandler(effect$);
-    effectWithErrorHandler$.subscribe((action) => {
-        let shouldDispatch = true;
-        if (hasEffectMetaData(effect$)) {
-            const metaData: EffectConfig = effect$[EFFECT_METADATA_KEY];
-            shouldDispatch = !!metaData.dispatch;
-        }
-
-        if (shouldDispatch) {
-            dispatch(action);
-        }
-    });
+export function effect(
+    effect$: Observable<any> & HasEffectMetadata,
+    config?: EffectRegistrationConfig
+): Subscription;
+export function effect(
+    effect$: Observable<Action>,
+    config?: EffectRegistrationConfig
+): Subscription;
+export function effect(effect$: any, config?: EffectRegistrationConfig): Subscription {
+    return defaultStoreCore.effect(effect$, config);
 }
 
 // exported for testing purposes
 export function addExtension(extension: StoreExtension) {
-    const metaReducer: MetaReducer<any> | void = extension.init();
-
-    if (metaReducer) {
-        addMetaReducers(metaReducer);
-    }
+    defaultStoreCore.addExtension(extension);
+}
 
-    if (extension.id === ExtensionId.UNDO) {
-        hasUndoExtension = true;
-    }
+// exported for testing purposes
+export function addMetaReducers(...reducers: MetaReducer<AppState>[]) {
+    defaultStoreCore.addMetaReducers(...reducers);
 }
 
 export function dispatch(action: Action) {
-    actionsOnQueue.dispatch(action);
+    defaultStoreCore.dispatch(action);
 }
 
 function createReducerWithInitialState<StateType>(
@@ -222,3 +436,10 @@ function omit<T extends Record<string, any>>(object: T, keyToOmit: keyof T): Par
             return prevValue;
         }, {});
 }
+
+// Replaces the state of the features in the payload of an import action (see `importState`)
+// The action runs through the meta reducers: e.g. the extensions see the imported state
+function createImportStateReducer(reducer: Reducer<AppState>): Reducer<AppState> {
+    return (state, action) =>
+        isImportStateAction(action) ? { ...state, ...action['payload'] } : reducer(state, action);
+}
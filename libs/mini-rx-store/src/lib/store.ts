@@ -1,13 +1,18 @@
-import { Action, AppState, FeatureConfig, Reducer, StoreConfig } from './models';
-import { miniRxError } from './utils';
-import { Observable } from 'rxjs';
 import {
-    addFeature,
-    appState,
-    configureStore as _configureStore,
-    dispatch,
-    effect,
-} from './store-core';
+    Action,
+    Actions,
+    AppState,
+    EffectError,
+    EffectRegistrationConfig,
+    FeatureConfig,
+    Reducer,
+    StoreConfig,
+} from './models';
+import { miniRxError } from './utils';
+import { Observable, Subscription } from 'rxjs';
+import { Selector } from './selector';
+import { createViewModelSelector, ReadonlySignal, ViewModel } from './signals';
+import { configureStore as _configureStore, defaultStoreCore, StoreCore } from './store-core';
 
 export abstract class Store {
     // Abstract class for Angular Dependency injection
@@ -18,23 +23,85 @@ export abstract class Store {
         config?: FeatureConfig<StateType>
     ): void;
     abstract dispatch(action: Action): void;
+    abstract dispatchBatch(actions: Action[]): void;
+    abstract batch(fn: () => void): void;
     abstract select<R>(mapFn: (state: AppState) => R): Observable<R>;
-    abstract effect(effect: Observable<any>): void;
+    // Signals require `configureSignals` (e.g. with the `signal` and `computed` functions of Angular)
+    abstract selectSignal<R>(mapFn: (state: AppState) => R): ReadonlySignal<R>;
+    abstract selectViewModel<Selectors extends Record<string, Selector<AppState, unknown>>>(
+        selectors: Selectors
+    ): ReadonlySignal<ViewModel<Selectors>>;
+    abstract effect(effect: Observable<any>, config?: EffectRegistrationConfig): Subscription;
+    abstract actions$: Actions;
+    // Emits the errors of the effects of this store and its FeatureStores
+    abstract errors$: Observable<EffectError>;
+    // Returns a JSON snapshot of the state (serialized with the `serializer` of the store config)
+    abstract exportState(): string;
+    abstract importState(snapshot: string): void;
 }
 
 let isStoreConfigured = false;
 
+// Links every Store object to its StoreCore instance (e.g. to bind FeatureStores to a specific store)
+const storeCores = new WeakMap<Store, StoreCore>();
+
 export function configureStore(config: StoreConfig<AppState>): Store | never {
     if (!isStoreConfigured) {
         _configureStore(config);
         isStoreConfigured = true;
 
-        return {
-            feature: addFeature,
-            select: appState.select.bind(appState),
-            dispatch,
-            effect,
-        };
+        return createStoreApi(defaultStoreCore);
     }
     miniRxError('`configureStore` was called multiple times.');
 }
+
+// Creates a new isolated store instance with its own actions, reducers, extensions and state
+export function createStore(config: StoreConfig<AppState> = {}): Store {
+    const storeCore = new StoreCore();
+    storeCore.configureStore(config);
+
+    return createStoreApi(storeCore);
+}
+
+/** @internal
+ * Returns the StoreCore of a Store object which has been created by `configureStore` or `createStore`
+ * Falls back to the global StoreCore if no Store object is provided
+ */
+export function getStoreCore(store?: Store): StoreCore {
+    if (!store) {
+        return defaultStoreCore;
+    }
+
+    const storeCore = findStoreCore(store);
+    if (!storeCore) {
+        miniRxError('Unknown store instance. Please use a store created by `createStore`.');
+    }
+    return storeCore;
+}
+
+/** @internal
+ * Returns undefined for Store objects which have not been created by `configureStore` or `createStore` (e.g. MockStore)
+ */
+export function findStoreCore(store: Store): StoreCore | undefined {
+    return storeCores.get(store);
+}
+
+function createStoreApi(storeCore: StoreCore): Store {
+    const store: Store = {
+        feature: storeCore.addFeature.bind(storeCore),
+        select: storeCore.appState.select.bind(storeCore.appState),
+        selectSignal: storeCore.selectSignal,
+        selectViewModel: (selectors) => storeCore.selectSignal(createViewModelSelector(selectors)),
+        dispatch: storeCore.dispatch.bind(storeCore),
+        dispatchBatch: storeCore.dispatchBatch.bind(storeCore),
+        batch: storeCore.batch.bind(storeCore),
+        effect: storeCore.effect.bind(storeCore),
+        actions$: storeCore.actions$,
+        errors$: storeCore.errors$,
+        exportState: storeCore.exportState.bind(storeCore),
+        importState: storeCore.importState.bind(storeCore),
+    };
+    storeCores.set(store, storeCore);
+
+    return store;
+}
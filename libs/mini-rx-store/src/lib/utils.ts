@@ -2,6 +2,8 @@ import { Observable, OperatorFunction, pipe } from 'rxjs';
 import { distinctUntilChanged, filter, map } from 'rxjs/operators';
 import {
     Action,
+    ActionInterceptor,
+    ActionInterceptorApi,
     EFFECT_METADATA_KEY,
     HasEffectMetadata,
     MetaReducer,
@@ -9,10 +11,24 @@ import {
     StateOrCallback,
     StoreExtension,
 } from './models';
-import { isComponentStoreSetStateAction, isFeatureStoreSetStateAction } from './actions';
+import {
+    isBatchAction,
+    isComponentStoreSetStateAction,
+    isFeatureStoreSetStateAction,
+} from './actions';
 import { miniRxNameSpace } from './constants';
+import { ActionCreator, isActionCreator } from './create-action';
 
-export function ofType(...allowedTypes: string[]): OperatorFunction<Action, Action> {
+export function ofType<AC extends ActionCreator[]>(
+    ...allowedActionCreators: AC
+): OperatorFunction<Action, ReturnType<AC[number]>>;
+export function ofType(...allowedTypes: string[]): OperatorFunction<Action, Action>;
+export function ofType(
+    ...allowedTypesOrActionCreators: Array<string | ActionCreator>
+): OperatorFunction<Action, Action> {
+    const allowedTypes: string[] = allowedTypesOrActionCreators.map((typeOrActionCreator) =>
+        isActionCreator(typeOrActionCreator) ? typeOrActionCreator.type : typeOrActionCreator
+    );
     return filter((action: Action) =>
         allowedTypes.some((type) => {
             return type === action.type;
@@ -20,7 +36,11 @@ export function ofType(...allowedTypes: string[]): OperatorFunction<Action, Acti
     );
 }
 export function select<T, R>(mapFn: (state: T) => R) {
-    return pipe(map(mapFn), distinctUntilChanged());
+    // Call `mapFn` only with the state (and not with the index of `map`): selectors with props would treat the index as props
+    return pipe(
+        map((state: T) => mapFn(state)),
+        distinctUntilChanged()
+    );
 }
 
 export function miniRxError(message: string): never {
@@ -31,6 +51,54 @@ export function miniRxConsoleError(message: string, err: any): void {
     console.error(miniRxNameSpace + ': ' + message + '\nDetails:', err);
 }
 
+// High resolution time in milliseconds (falls back to `Date.now` if `performance` is not available)
+export function now(): number {
+    return typeof performance !== 'undefined' ? performance.now() : Date.now();
+}
+
+export function miniRxConsoleWarn(message: string): void {
+    console.warn(miniRxNameSpace + ': ' + message);
+}
+
+// Compares plain objects and arrays recursively (other objects are compared by reference)
+export function isDeepEqual(a: unknown, b: unknown): boolean {
+    if (Object.is(a, b)) {
+        return true;
+    }
+    if (
+        !isPlainObjectOrArray(a) ||
+        !isPlainObjectOrArray(b) ||
+        Array.isArray(a) !== Array.isArray(b)
+    ) {
+        return false;
+    }
+
+    const keysA = Object.keys(a);
+    const keysB = Object.keys(b);
+    return (
+        keysA.length === keysB.length &&
+        keysA.every(
+            (key) =>
+                Object.prototype.hasOwnProperty.call(b, key) &&
+                isDeepEqual(
+                    (a as Record<string, unknown>)[key],
+                    (b as Record<string, unknown>)[key]
+                )
+        )
+    );
+}
+
+export function isPlainObjectOrArray(v: unknown): v is object {
+    if (Array.isArray(v)) {
+        return true;
+    }
+    if (typeof v !== 'object' || v === null) {
+        return false;
+    }
+    const proto = Object.getPrototypeOf(v);
+    return proto === Object.prototype || proto === null;
+}
+
 export function hasEffectMetaData(
     param: Observable<Action>
 ): param is Observable<Action> & HasEffectMetadata {
@@ -40,6 +108,14 @@ export function hasEffectMetaData(
 
 // Only display type and payload in the LoggingExtension and Redux DevTools
 export function beautifyActionForLogging(action: Action, state: object): Action {
+    if (isBatchAction(action)) {
+        return {
+            type: action.type,
+            payload: action.payload.map((batchedAction) =>
+                beautifyActionForLogging(batchedAction, state)
+            ),
+        };
+    }
     if (isFeatureStoreSetStateAction(action) || isComponentStoreSetStateAction(action)) {
         return {
             type: action.type,
@@ -58,6 +134,30 @@ export function calcNewState<T>(state: T, stateOrCallback: StateOrCallback<T>):
     };
 }
 
+// Composes the interceptors: the first interceptor is called first, the last one calls `dispatch`
+export function createInterceptorChain<StateType>(
+    interceptors: ActionInterceptor<StateType>[],
+    api: ActionInterceptorApi<StateType>,
+    dispatch: (action: Action) => void
+): (action: Action) => void {
+    return interceptors.reduceRight<(action: Action) => void>(
+        (next, interceptor) => (action) => interceptor(action, next, api),
+        dispatch
+    );
+}
+
+// Runs the reducer for every action of a batch action: the state is returned only once
+export function createBatchReducer<T>(reducer: Reducer<T>): Reducer<T> {
+    const batchReducer: Reducer<T> = (state, action) =>
+        isBatchAction(action)
+            ? action.payload.reduce(
+                  (newState, batchedAction) => batchReducer(newState, batchedAction),
+                  state
+              )
+            : reducer(state, action);
+    return batchReducer;
+}
+
 export function combineMetaReducers<T>(metaReducers: MetaReducer<T>[]): MetaReducer<T> {
     return (reducer: Reducer<any>): Reducer<T> => {
         return metaReducers.reduceRight(
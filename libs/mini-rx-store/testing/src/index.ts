@@ -0,0 +1,7 @@
+/*
+ * Public API Surface of mini-rx-store/testing
+ */
+
+export { MockStore, MockStoreConfig, MockSelector } from './lib/mock-store';
+export { createMockActions } from './lib/mock-actions';
+export { recordActions, ActionRecorder } from './lib/action-recorder';
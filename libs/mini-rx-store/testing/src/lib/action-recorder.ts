@@ -0,0 +1,23 @@
+import { Observable } from 'rxjs';
+import { Action } from 'mini-rx-store';
+
+export interface ActionRecorder {
+    // The recorded actions in dispatch order
+    readonly actions: Action[];
+    reset(): void;
+    stop(): void;
+}
+
+// Records the actions of an actions stream: e.g. `recordActions(store.actions$)`
+export function recordActions(actions$: Observable<Action>): ActionRecorder {
+    const actions: Action[] = [];
+    const subscription = actions$.subscribe((action) => actions.push(action));
+
+    return {
+        actions,
+        reset: () => {
+            actions.length = 0;
+        },
+        stop: () => subscription.unsubscribe(),
+    };
+}
@@ -0,0 +1,13 @@
+import { Observable } from 'rxjs';
+import { Action, Actions } from 'mini-rx-store';
+
+// Creates an `Actions` stream from a source (e.g. a marble observable) to test effects in isolation
+// A factory is called on subscribe: the source can be reassigned per test
+export function createMockActions(
+    source: Observable<Action> | (() => Observable<Action>)
+): Actions {
+    return new Actions((subscriber) => {
+        const source$ = typeof source === 'function' ? source() : source;
+        return source$.subscribe(subscriber);
+    });
+}
@@ -0,0 +1,139 @@
+import { BehaviorSubject, NEVER, Observable, Subject, Subscription } from 'rxjs';
+import { distinctUntilChanged, map } from 'rxjs/operators';
+import {
+    Action,
+    Actions,
+    createSelectSignal,
+    createStateSnapshot,
+    createViewModelSelector,
+    EffectError,
+    EffectRegistrationConfig,
+    FeatureConfig,
+    MemoizedSelector,
+    MemoizedSelectorWithProps,
+    parseStateSnapshot,
+    ReadonlySignal,
+    Reducer,
+    Selector,
+    SelectSignalFn,
+    SerializerRegistry,
+    Store,
+    ViewModel,
+} from 'mini-rx-store';
+import { ActionRecorder, recordActions } from './action-recorder';
+
+export type MockSelector<Result = unknown> = {
+    selector: MemoizedSelector<any, Result, any> | MemoizedSelectorWithProps<any, any, Result, any>;
+    value: Result;
+};
+
+export interface MockStoreConfig<StateType> {
+    initialState?: StateType;
+    selectors?: MockSelector[];
+    // Used by `exportState`/`importState`
+    serializer?: SerializerRegistry;
+}
+
+// Store replacement for unit tests:
+// - the state is set directly with `setState` (reducers are not executed)
+// - dispatched actions are recorded and emitted by `actions$` (effects are not executed)
+// - selectors created with `createSelector` can return overridden results
+export class MockStore<StateType extends object = Record<string, any>> extends Store {
+    private stateSource: BehaviorSubject<StateType>;
+    private actionsSource = new Subject<Action>();
+    private overriddenSelectors = new Set<MockSelector['selector']>();
+    private recorder: ActionRecorder;
+    private serializer?: SerializerRegistry;
+
+    actions$: Actions = new Actions((subscriber) => this.actionsSource.subscribe(subscriber));
+    // Effects are not executed: `errors$` never emits
+    errors$: Observable<EffectError> = NEVER;
+    selectSignal: SelectSignalFn<StateType>;
+
+    get state(): StateType {
+        return this.stateSource.getValue();
+    }
+
+    get dispatchedActions(): Action[] {
+        return this.recorder.actions;
+    }
+
+    constructor(config: MockStoreConfig<StateType> = {}) {
+        super();
+        this.stateSource = new BehaviorSubject<StateType>(config.initialState ?? ({} as StateType));
+        this.selectSignal = createSelectSignal(this.stateSource);
+        this.recorder = recordActions(this.actions$);
+        this.serializer = config.serializer;
+        config.selectors?.forEach(({ selector, value }) => this.overrideSelector(selector, value));
+    }
+
+    setState(state: StateType): void {
+        this.stateSource.next(state);
+    }
+
+    select<R>(mapFn: (state: StateType) => R): Observable<R> {
+        return this.stateSource.pipe(
+            map((state) => mapFn(state)),
+            distinctUntilChanged()
+        );
+    }
+
+    selectViewModel<Selectors extends Record<string, Selector<StateType, unknown>>>(
+        selectors: Selectors
+    ): ReadonlySignal<ViewModel<Selectors>> {
+        return this.selectSignal(createViewModelSelector(selectors));
+    }
+
+    overrideSelector<Result>(selector: MockSelector<Result>['selector'], value: Result): void {
+        selector.setResult(value);
+        this.overriddenSelectors.add(selector);
+        this.refreshState();
+    }
+
+    resetSelectors(): void {
+        this.overriddenSelectors.forEach((selector) => selector.clearResult());
+        this.overriddenSelectors.clear();
+        this.refreshState();
+    }
+
+    dispatch(action: Action): void {
+        this.actionsSource.next(action);
+    }
+
+    dispatchBatch(actions: Action[]): void {
+        actions.forEach((action) => this.dispatch(action));
+    }
+
+    batch(fn: () => void): void {
+        fn();
+    }
+
+    resetDispatchedActions(): void {
+        this.recorder.reset();
+    }
+
+    feature<S>(featureKey: string, reducer: Reducer<S>, config?: FeatureConfig<S>): void;
+    feature(): void {
+        // Reducers are not executed: the state is set with `setState`
+    }
+
+    effect(effect: Observable<any>, config?: EffectRegistrationConfig): Subscription;
+    effect(): Subscription {
+        // Effects are not executed: test effects in isolation with `createMockActions`
+        return new Subscription();
+    }
+
+    exportState(): string {
+        return createStateSnapshot(this.state, this.serializer);
+    }
+
+    // Replaces the state (the features are not validated)
+    importState(snapshot: string): void {
+        this.setState(parseStateSnapshot(snapshot, this.serializer) as StateType);
+    }
+
+    // Re-emits the current state: `select` re-runs the selectors and picks up overridden results
+    private refreshState(): void {
+        this.stateSource.next(this.stateSource.getValue());
+    }
+}
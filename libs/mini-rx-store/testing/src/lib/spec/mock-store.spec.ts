@@ -0,0 +1,182 @@
+import { Observable, of } from 'rxjs';
+import { toArray } from 'rxjs/operators';
+import {
+    Action,
+    configureSignals,
+    createAction,
+    createFeatureStateSelector,
+    createSelector,
+    createStore,
+    ofType,
+    props,
+    toExternalStore,
+} from 'mini-rx-store';
+import { createMockActions, MockStore, recordActions } from '../../index';
+
+interface CounterState {
+    counter: { count: number };
+}
+
+const getCounterFeature = createFeatureStateSelector<{ count: number }>('counter');
+const getCount = createSelector(getCounterFeature, (state) => state.count);
+
+const increment = createAction('increment');
+const add = createAction('add', props<{ value: number }>());
+
+describe('MockStore', () => {
+    let store: MockStore<CounterState>;
+
+    beforeEach(() => {
+        store = new MockStore<CounterState>({ initialState: { counter: { count: 1 } } });
+    });
+
+    afterEach(() => {
+        store.resetSelectors();
+    });
+
+    it('should select the initial state', () => {
+        const spy = jest.fn();
+        store.select(getCount).subscribe(spy);
+
+        expect(spy).toHaveBeenCalledWith(1);
+    });
+
+    it('should set the state directly', () => {
+        const spy = jest.fn();
+        store.select(getCount).subscribe(spy);
+        store.setState({ counter: { count: 5 } });
+
+        expect(spy.mock.calls).toEqual([[1], [5]]);
+        expect(store.state).toEqual({ counter: { count: 5 } });
+    });
+
+    it('should override selectors', () => {
+        const spy = jest.fn();
+        store.select(getCount).subscribe(spy);
+
+        store.overrideSelector(getCount, 42);
+        store.setState({ counter: { count: 5 } }); // The overridden result wins
+
+        store.resetSelectors();
+
+        expect(spy.mock.calls).toEqual([[1], [42], [5]]);
+    });
+
+    it('should override selectors from the config', () => {
+        const mockStore = new MockStore<CounterState>({
+            selectors: [{ selector: getCount, value: 3 }],
+        });
+        const spy = jest.fn();
+        mockStore.select(getCount).subscribe(spy);
+
+        expect(spy).toHaveBeenCalledWith(3);
+    });
+
+    it('should record dispatched actions', () => {
+        store.dispatch(increment());
+        store.dispatchBatch([add({ value: 2 }), add({ value: 3 })]);
+
+        expect(store.dispatchedActions).toEqual([
+            increment(),
+            add({ value: 2 }),
+            add({ value: 3 }),
+        ]);
+
+        store.resetDispatchedActions();
+        expect(store.dispatchedActions).toEqual([]);
+    });
+
+    it('should emit dispatched actions with actions$', () => {
+        const spy = jest.fn();
+        store.actions$.pipe(ofType(increment)).subscribe(spy);
+
+        store.dispatch(add({ value: 1 }));
+        store.dispatch(increment());
+
+        expect(spy.mock.calls).toEqual([[increment()]]);
+    });
+
+    it('should not execute reducers and effects', () => {
+        const effectSpy = jest.fn();
+        store.feature('other', (state = { value: 1 }) => state);
+        store.effect(of(increment()));
+        store.actions$.subscribe(effectSpy);
+
+        expect(store.state).toEqual({ counter: { count: 1 } });
+        expect(effectSpy).not.toHaveBeenCalled();
+    });
+
+    it('should export and import the state', () => {
+        const snapshot = store.exportState();
+        store.setState({ counter: { count: 5 } });
+        store.importState(snapshot);
+
+        expect(store.state).toEqual({ counter: { count: 1 } });
+    });
+
+    it('should select signals', () => {
+        // Minimal signal functions: `computed` runs the computation on every read
+        configureSignals({
+            signal: (initialValue) => {
+                let value = initialValue;
+                return Object.assign(() => value, { set: (v: typeof value) => (value = v) });
+            },
+            computed: (computation) => computation,
+        });
+        const vm = store.selectViewModel({ count: (state) => state.counter.count });
+
+        store.setState({ counter: { count: 5 } });
+
+        expect(vm()).toEqual({ count: 5 });
+    });
+
+    it('should work with toExternalStore', () => {
+        const store = new MockStore<CounterState>({ initialState: { counter: { count: 1 } } });
+        const externalStore = toExternalStore(store, (state) => state['counter'].count);
+        const listener = jest.fn();
+        externalStore.subscribe(listener);
+
+        store.setState({ counter: { count: 2 } });
+
+        expect(externalStore.getSnapshot()).toBe(2);
+        expect(listener.mock.calls).toEqual([[1], [2]]);
+    });
+});
+
+describe('createMockActions', () => {
+    it('should emit the actions of the source', () => {
+        const actions$ = createMockActions(of(increment(), add({ value: 1 })));
+        const spy = jest.fn();
+
+        actions$.pipe(ofType(add)).subscribe(spy);
+
+        expect(spy.mock.calls).toEqual([[add({ value: 1 })]]);
+    });
+
+    it('should call a source factory on subscribe', () => {
+        let source$: Observable<Action> = of(increment());
+        const actions$ = createMockActions(() => source$);
+        source$ = of(add({ value: 5 }));
+
+        const spy = jest.fn();
+        actions$.pipe(toArray()).subscribe(spy);
+
+        expect(spy).toHaveBeenCalledWith([add({ value: 5 })]);
+    });
+});
+
+describe('recordActions', () => {
+    it('should record the actions of a store', () => {
+        const store = createStore();
+        const recorder = recordActions(store.actions$);
+
+        store.dispatch(increment());
+        recorder.stop();
+        store.dispatch(add({ value: 1 }));
+
+        expect(recorder.actions).toEqual([increment()]);
+
+        recorder.reset();
+        expect(recorder.actions).toEqual([]);
+    });
+});